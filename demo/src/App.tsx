@@ -10,7 +10,7 @@ import { OrderedList } from "@tiptap/extension-ordered-list";
 import { ListItem } from "@tiptap/extension-list-item";
 import { HardBreak } from "@tiptap/extension-hard-break";
 import { History } from "@tiptap/extension-history";
-import {   PageDocument, PageExtension, UnitConversion } from "@adalat-ai/page-extension";
+import {   PageDocument, PageExtension } from "@adalat-ai/page-extension";
 
 
 import prettier from "prettier/standalone";
@@ -20,10 +20,6 @@ import "prismjs/themes/prism-tomorrow.css";
 import "prismjs/components/prism-markup";
 import { useEffect, useState } from "react";
 
-const unitConversion = new UnitConversion();
-const pageHeight = unitConversion.mmConversionPx(290);
-const pageWidth = unitConversion.mmConversionPx(210);
-
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const MenuBar = ({ editor }: { editor: any | null }) => {
   if (!editor) {
@@ -180,8 +176,7 @@ function App() {
       HardBreak,
       History,
       PageExtension.configure({
-        bodyHeight: pageHeight,
-        bodyWidth: pageWidth,
+        paperSize: "A4",
         pageLayout: {
           margins: {
             top: { unit: "INCHES", value: 0.75 },
@@ -6,4 +6,22 @@ export const Document = Node.create({
   name: 'doc',
   topNode: true,
   content: `${PAGE}+`, 
+
+  addAttributes() {
+    // Header, footer and metadata are stored once per document and serialized with its JSON
+    return {
+      header: {
+        default: null,
+        rendered: false,
+      },
+      footer: {
+        default: null,
+        rendered: false,
+      },
+      metadata: {
+        default: null,
+        rendered: false,
+      },
+    };
+  },
 });
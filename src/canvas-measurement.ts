@@ -0,0 +1,229 @@
+import { type Node } from '@tiptap/pm/model';
+import { type HeadingLevel, type MeasurementBackend, type PageOptions } from './types';
+import { getBlockSpacing, getBodyWidth, getLinePitch, lengthToPx } from './core';
+import { isValidLineSpacing } from './validation';
+import { BULLETLIST, HARDBREAK, HEADING, LISTITEM, ORDEREDLIST, PAGE } from './node-names';
+
+
+/** Measures the width of a single line of text in pixels for a CSS font shorthand */
+export type TextWidthFn = (text: string, font: string) => number;
+
+
+export interface CanvasMeasurementOptions {
+  /** Text measurement, defaults to a 2D canvas context */
+  measureText?: TextWidthFn;
+  /** Indentation of list content in pixels, defaults to 24 */
+  listIndent?: number;
+}
+
+
+// Browser default heading sizes relative to the body text
+const HEADING_SCALE: Record<HeadingLevel, number> = { 1: 2, 2: 1.5, 3: 1.17, 4: 1, 5: 0.83, 6: 0.67 };
+
+// Average character width relative to the font size, used when no canvas is available
+const FALLBACK_CHARACTER_WIDTH = 0.5;
+
+
+type TextLayout = {
+  lineHeight: number;
+  /** Content offset of the first character of every line */
+  lineStarts: number[];
+};
+
+
+type BlockLayout = {
+  /** Width available to the block, narrower inside lists */
+  width: number;
+  /** Whether the block sits in a list item, which drops its spacing */
+  inList: boolean;
+  height: number;
+};
+
+
+function createCanvasTextWidth(): TextWidthFn {
+  let context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null | undefined;
+
+  return (text, font) => {
+    if (context === undefined) {
+      try {
+        context = typeof OffscreenCanvas !== 'undefined'
+          ? new OffscreenCanvas(1, 1).getContext('2d')
+          : document.createElement('canvas').getContext('2d');
+      } catch {
+        context = null;
+      }
+    }
+
+    if (!context) {
+      const fontSize = parseFloat(font.replace(/^bold /, ''));
+      return text.length * fontSize * FALLBACK_CHARACTER_WIDTH;
+    }
+
+    context.font = font;
+    return context.measureText(text).width;
+  };
+}
+
+
+/**
+ * Create a measurement backend that lays out text with canvas text metrics instead of rendering it
+ * Much faster than the DOM backend on long documents, but only knows paragraphs, headings and lists:
+ * other blocks are counted as one line and CSS beyond the page layout options is ignored
+ * @param backendOptions - Text measurement and list indentation
+ */
+export function createCanvasMeasurementBackend(backendOptions: CanvasMeasurementOptions = {}): MeasurementBackend {
+  const measureText = backendOptions.measureText ?? createCanvasTextWidth();
+  const listIndent = backendOptions.listIndent ?? 24;
+  let options: PageOptions = {};
+  let width = 0;
+  // Block layouts per page layout, so pages of different sections do not evict each other
+  let layoutCaches = new Map<string, WeakMap<Node, BlockLayout>>();
+  let layoutCache = new WeakMap<Node, BlockLayout>();
+
+  const useLayout = (pageOptions: PageOptions) => {
+    options = pageOptions;
+    width = getBodyWidth(pageOptions);
+
+    const key = JSON.stringify([width, pageOptions.pageLayout, pageOptions.typography]);
+    layoutCache = layoutCaches.get(key) ?? new WeakMap();
+    layoutCaches.set(key, layoutCache);
+  };
+
+  const getFontSize = (node: Node) => {
+    const fontSize = options.typography?.fontSize ? lengthToPx(options.typography.fontSize) : 16;
+    return node.type.name === HEADING ? fontSize * HEADING_SCALE[(node.attrs.level as HeadingLevel) ?? 1] : fontSize;
+  };
+
+  const getSpacing = (node: Node, inList: boolean) => {
+    if (inList) return 0;
+
+    const spacing = getBlockSpacing(options);
+    const blockSpacing = node.type.name === HEADING
+      ? spacing.headings[(node.attrs.level as HeadingLevel) ?? 1]
+      : node.type.name === LISTITEM ? spacing.listItem : spacing.paragraph;
+
+    return blockSpacing.before + blockSpacing.after;
+  };
+
+  const layoutText = (node: Node, lineWidth: number): TextLayout => {
+    const fontSize = getFontSize(node);
+    const font = `${node.type.name === HEADING ? 'bold ' : ''}${fontSize}px ${options.typography?.fontFamily ?? 'serif'}`;
+    const lineSpacing = isValidLineSpacing(node.attrs.lineSpacing) ? node.attrs.lineSpacing : options.pageLayout?.lineSpacing;
+    const lineHeight = getLinePitch({
+      pageLayout: { lineSpacing },
+      typography: { fontSize: { unit: 'PX', value: fontSize } },
+    });
+    const lineStarts = [0];
+    let used = 0;
+
+    const place = (offset: number, advance: number, visibleWidth: number) => {
+      if (used > 0 && used + visibleWidth > lineWidth) {
+        lineStarts.push(offset);
+        used = 0;
+      }
+      used += advance;
+    };
+
+    node.forEach((child, childOffset) => {
+      if (child.type.name === HARDBREAK) {
+        lineStarts.push(childOffset + 1);
+        used = 0;
+      } else if (child.isText) {
+        for (const match of (child.text ?? '').matchAll(/\s*\S+\s*/g)) {
+          const word = match[0];
+          const wordWidth = measureText(word.trimEnd(), font);
+          const offset = childOffset + (match.index ?? 0);
+
+          // Words longer than a line wrap anywhere, like `overflow-wrap: break-word`
+          if (wordWidth > lineWidth) {
+            const pieces = Math.ceil(wordWidth / lineWidth);
+            for (let piece = 0; piece < pieces; piece++) {
+              place(offset + Math.floor((word.length * piece) / pieces), wordWidth / pieces, wordWidth / pieces);
+            }
+          } else {
+            place(offset, measureText(word, font), wordWidth);
+          }
+        }
+      } else {
+        place(childOffset, fontSize, fontSize);
+      }
+    });
+
+    return { lineHeight, lineStarts };
+  };
+
+  // Records the layout of the block and its descendants, so blocks measured on their own keep the width and spacing of their place
+  const getBlockHeight = (node: Node, blockWidth: number, inList = false): number => {
+    const cached = layoutCache.get(node);
+    if (cached?.width === blockWidth && cached.inList === inList) return cached.height;
+
+    let height: number;
+
+    if (node.isTextblock) {
+      const { lineHeight, lineStarts } = layoutText(node, blockWidth);
+      height = lineStarts.length * lineHeight + getSpacing(node, inList);
+    } else {
+      const isList = node.type.name === BULLETLIST || node.type.name === ORDEREDLIST;
+      const childWidth = isList ? blockWidth - listIndent : blockWidth;
+      const isListItem = node.type.name === LISTITEM;
+      height = isListItem ? getSpacing(node, false) : 0;
+
+      node.forEach((child) => {
+        height += child.isBlock ? getBlockHeight(child, childWidth, isListItem || (inList && !isList)) : 0;
+      });
+
+      if (!node.childCount) height = layoutText(node, blockWidth).lineHeight;
+    }
+
+    layoutCache.set(node, { width: blockWidth, inList, height });
+    return height;
+  };
+
+  // Blocks not laid out from their page yet are taken as page children
+  const getLayout = (node: Node): BlockLayout =>
+    layoutCache.get(node) ?? { width, inList: false, height: getBlockHeight(node, width) };
+
+  return {
+    prepare: (pageOptions) => {
+      layoutCaches = new Map();
+      useLayout(pageOptions);
+      return null;
+    },
+    resize: (pageOptions) => useLayout(pageOptions),
+    clear: () => undefined,
+    getElement: (node) => {
+      // Pages are walked before their content, laying out every block from the page down
+      if (node.type.name === PAGE) node.forEach((child) => getBlockHeight(child, width));
+      return null;
+    },
+    getHeight: (node) => getLayout(node).height,
+    getSpacing: (node) => getSpacing(node, getLayout(node).inList),
+    getContentSpacing: () => 0,
+    getDefaultHeight: () => {
+      const { paragraph } = getBlockSpacing(options);
+      return getLinePitch(options) + paragraph.before + paragraph.after;
+    },
+    getLineHeight: (node) => (node.isTextblock ? layoutText(node, getLayout(node).width).lineHeight : 0),
+    getBreakPos: (node, _dom, splitContext) => {
+      if (!node.isTextblock) return null;
+
+      const layout = getLayout(node);
+      const { lineHeight, lineStarts } = layoutText(node, layout.width);
+      const available = splitContext.getHeight() - splitContext.getAccumulatedHeight() - getSpacing(node, layout.inList);
+      const fittingLines = Math.floor(available / lineHeight);
+
+      if (fittingLines < 1 || fittingLines >= lineStarts.length) return null;
+
+      return lineStarts[fittingLines] + 1;
+    },
+    getHeaderFooterHeight: (_kind, content, schema, regionWidth) =>
+      // Blocks the schema cannot parse are not rendered either, see `getHeaderFooterHtml`
+      content.reduce((height, block) => {
+        try {
+          return height + getBlockHeight(schema.nodeFromJSON(block), regionWidth, true);
+        } catch {
+          return height;
+        }
+      }, 0),
+  };
+}
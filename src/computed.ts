@@ -10,17 +10,23 @@ import {
   BULLETLIST,
   TRANSIENT_TEXT,
 } from './node-names';
-import { type ComputedFn, type NodesComputed, type PageState, type SplitParams, type SplitInfo } from './types';
-import { Fragment, type Node, type Schema, Slice } from '@tiptap/pm/model';
+import { type ComputedFn, type MeasurementBackend, type NodesComputed, type PageOptions, type PageState, type SplitParams, type SplitInfo } from './types';
+import { Fragment, Mark, type Node, type Schema, Slice } from '@tiptap/pm/model';
 import { type EditorState, type Transaction } from '@tiptap/pm/state';
-import { getAbsentHtmlH, getBodyHeight, getBreakPos, getContentSpacing, getDefault, getDomHeight, getDomPaddingAndMargin } from './core';
+import {
+  domMeasurementBackend,
+  getBodyHeight,
+  getMeasurementBackend,
+  isSamePageSetup,
+  resolvePageNodeOptions,
+} from './core';
 import { getNodeType, type Editor } from '@tiptap/core';
 import { ReplaceStep } from '@tiptap/pm/transform';
 import { getId, findParentNodeClosestToPos } from './utils/node';
 
 
-export const sameListCalculation: ComputedFn = (splitContext, _node, _pos, _parent, dom) => {
-  const pHeight = getDomHeight(dom);
+export const sameListCalculation: ComputedFn = (splitContext, node, _pos, _parent, dom) => {
+  const pHeight = splitContext.measurement.getHeight(node, dom);
   
   // If the height of the list exceeds the pagination height, return to continue looping tr or li
   if (splitContext.isOverflow(pHeight)) return true;
@@ -33,7 +39,7 @@ export const sameListCalculation: ComputedFn = (splitContext, _node, _pos, _pare
 
 export const sameItemCalculation: ComputedFn = (splitContext, node, pos, parent, dom) => {
   const chunks = splitContext.splitResolve(pos);
-  const pHeight = getDomHeight(dom);
+  const pHeight = splitContext.measurement.getHeight(node, dom);
   
   if (!splitContext.isOverflow(pHeight)) {
     splitContext.addHeight(pHeight);
@@ -41,7 +47,7 @@ export const sameItemCalculation: ComputedFn = (splitContext, node, pos, parent,
   }
   
   if (pHeight > splitContext.getHeight()) {
-    splitContext.addHeight(getDomPaddingAndMargin(dom));
+    splitContext.addHeight(splitContext.measurement.getSpacing(node, dom));
     return true;
   }
   
@@ -55,6 +61,42 @@ export const sameItemCalculation: ComputedFn = (splitContext, node, pos, parent,
   return false;
 };
 
+// Widow and orphan attributes hold a positive line count, anything else falls back to the page layout
+const getLineCount = (value: unknown): number | null =>
+  Number.isInteger(value) && (value as number) > 0 ? value as number : null;
+
+/**
+ * Height to hold back from the page so a paragraph break keeps the widow and orphan minimums
+ * A paragraph at the top of a page is split regardless, moving it would leave the page empty
+ * @returns The height, or null to move the whole paragraph to the next page
+ */
+export const getLineControlHeight = (splitContext: SplitContext, node: Node, dom: HTMLElement | null): number | null => {
+  const { pageLayout } = splitContext.options;
+  const widows = getLineCount(node.attrs.widows) ?? pageLayout?.widows ?? 1;
+  const orphans = getLineCount(node.attrs.orphans) ?? pageLayout?.orphans ?? 1;
+  const lineHeight = splitContext.measurement.getLineHeight(node, dom);
+  
+  if ((widows <= 1 && orphans <= 1) || !(lineHeight > 0)) return 0;
+  
+  const spacing = splitContext.measurement.getSpacing(node, dom);
+  const lines = Math.round((splitContext.measurement.getHeight(node, dom) - spacing) / lineHeight);
+  const fittingLines = Math.floor((splitContext.getHeight() - splitContext.getAccumulatedHeight() - spacing) / lineHeight);
+  const lastLine = Math.min(fittingLines, lines - widows);
+  
+  if (lastLine < orphans) {
+    return splitContext.getAccumulatedHeight() > 0 ? null : 0;
+  }
+  
+  return (fittingLines - lastLine) * lineHeight;
+};
+
+/**
+ * Whether a block moves to the next page together with the block after it
+ * Headings keep with next unless their `keepWithNext` attribute is false, other blocks only when it is true
+ */
+export const isKeepWithNext = (node: Node): boolean =>
+  (node.attrs.keepWithNext as boolean | null | undefined) ?? node.type.name === HEADING;
+
 /**
  * Default height calculation methods for different node types
  */
@@ -67,7 +109,7 @@ export const defaultNodesComputed: NodesComputed = {
    * Heading split algorithm - splits headings that exceed pagination height
    */
   [HEADING]: (splitContext, node, pos, _parent, dom) => {
-    const pHeight = getDomHeight(dom);
+    const pHeight = splitContext.measurement.getHeight(node, dom);
     
     if (!splitContext.isOverflow(pHeight)) {
       splitContext.addHeight(pHeight);
@@ -75,7 +117,7 @@ export const defaultNodesComputed: NodesComputed = {
     }
 
     const chunks = splitContext.splitResolve(pos);
-    const point = pHeight > splitContext.getHeight() ? getBreakPos(node, dom, splitContext) : null;
+    const point = pHeight > splitContext.getHeight() ? splitContext.measurement.getBreakPos(node, dom, splitContext) : null;
     
     splitContext.setBoundary(
       point ? pos + point : pos, 
@@ -89,7 +131,7 @@ export const defaultNodesComputed: NodesComputed = {
    * Paragraph split algorithm - splits paragraphs that exceed pagination height
    */
   [PARAGRAPH]: (splitContext, node, pos, parent, dom) => {
-    const pHeight = getDomHeight(dom);
+    const pHeight = splitContext.measurement.getHeight(node, dom);
     
     if (!splitContext.isOverflow(pHeight)) {
       splitContext.addHeight(pHeight);
@@ -99,8 +141,12 @@ export const defaultNodesComputed: NodesComputed = {
     const chunks = splitContext.splitResolve(pos) as number[][];
     
     // Try to split if paragraph exceeds default height
-    if (pHeight > splitContext.getDefaultHeight()) {
-      const point = getBreakPos(node, dom, splitContext);
+    const lineControlHeight = pHeight > splitContext.getDefaultHeight() ? getLineControlHeight(splitContext, node, dom) : null;
+    if (lineControlHeight !== null) {
+      // Lines held back for the widows are left out of the height the break may use
+      splitContext.addHeight(lineControlHeight);
+      
+      const point = splitContext.measurement.getBreakPos(node, dom, splitContext);
       if (point) {
         splitContext.setBoundary(pos + point, chunks.length);
         return false;
@@ -123,11 +169,11 @@ export const defaultNodesComputed: NodesComputed = {
   /**
    * Transient text calculation - handles special text content
    */
-  [TRANSIENT_TEXT]: (splitContext, _node, _pos, _parent, dom) => {
-    const pHeight = getDomHeight(dom);
+  [TRANSIENT_TEXT]: (splitContext, node, _pos, _parent, dom) => {
+    const pHeight = splitContext.measurement.getHeight(node, dom);
     const isOverflow = splitContext.isOverflow(pHeight);
     
-    splitContext.addHeight(isOverflow ? getContentSpacing(dom) : pHeight);
+    splitContext.addHeight(isOverflow ? splitContext.measurement.getContentSpacing(node, dom) : pHeight);
     return isOverflow;
   },
 
@@ -140,10 +186,10 @@ export const defaultNodesComputed: NodesComputed = {
   },
   
   /**
-   * Page split algorithm - always returns the last page for splitting
+   * Page split algorithm - only descends into the page being measured
    */
   [PAGE]: (splitContext, node) => {
-    return node === splitContext.lastPage();
+    return node === splitContext.getPage();
   },
 };
 
@@ -156,15 +202,32 @@ export class SplitContext {
   #pageBoundary: SplitInfo | null = null; // Returned split point
   #height: number; // Pagination height
   #paragraphDefaultHeight: number; // Default height of the paragraph tag
+  #page: Node | null; // Page being measured
+  #firstBlockPos: number | null = null; // Position of the first block of the page
+  #block: { node: Node; pos: number } | null = null; // Block of the page being measured
+  #keepStart: number | null = null; // First block of the keep-with-next run before the current block
   public attributes: Record<string, unknown> = {};
   public schema: Schema;
+  public measurement: MeasurementBackend; // Source of node heights
+  public options: PageOptions; // Resolved options of the page being measured
 
 
-  constructor(schema: Schema, doc: Node, height: number, paragraphDefaultHeight: number) {
+  constructor(
+    schema: Schema,
+    doc: Node,
+    height: number,
+    paragraphDefaultHeight: number,
+    page: Node | null = doc.lastChild,
+    measurement: MeasurementBackend = domMeasurementBackend,
+    options: PageOptions = {}
+  ) {
     this.#doc = doc;
     this.#height = height;
     this.#paragraphDefaultHeight = paragraphDefaultHeight;
+    this.#page = page;
     this.schema = schema;
+    this.measurement = measurement;
+    this.options = options;
   }
 
   /**
@@ -231,6 +294,40 @@ export class SplitContext {
     this.#pageBoundary = { pos, depth };
   }
 
+  /**
+   * Start measuring a block of the page
+   * The previous block fit on the page, so it joins the keep-with-next run if it keeps with next and ends it otherwise
+   * @param node - Block of the page
+   * @param pos - Position of the block
+   */
+  startBlock(node: Node, pos: number): void {
+    const previous = this.#block;
+    
+    if (previous) {
+      this.#keepStart = isKeepWithNext(previous.node) ? this.#keepStart ?? previous.pos : null;
+    }
+    
+    this.#firstBlockPos ??= pos;
+    this.#block = { node, pos };
+  }
+
+  /**
+   * Move the split point before the keep-with-next run when nothing of the block after it stays on the page
+   * A run that starts the page stays, moving it would leave the page empty
+   */
+  keepWithNext(): void {
+    const boundary = this.#pageBoundary;
+    const block = this.#block;
+    const keepStart = this.#keepStart;
+    
+    if (!boundary || !block || keepStart === null || keepStart === this.#firstBlockPos) return;
+    
+    // Some text of the block stays, e.g. the first lines of a split paragraph
+    if (boundary.pos > block.pos && this.#doc.textBetween(block.pos, boundary.pos)) return;
+    
+    this.#pageBoundary = { pos: keepStart, depth: 1 };
+  }
+
   /**
    * Get the current split point boundary
    */
@@ -263,6 +360,38 @@ export class SplitContext {
   lastPage(): Node | null {
     return this.#doc.lastChild;
   }
+
+  /**
+   * Get the page node being measured
+   */
+  getPage(): Node | null {
+    return this.#page;
+  }
+}
+
+/**
+ * Compare the content of two pages, ignoring the ids that splitting gives to continued nodes
+ */
+function isSamePageContent(page: Node, other: Node): boolean {
+  if (page.childCount !== other.childCount) return false;
+  
+  for (let index = 0; index < page.childCount; index++) {
+    const node = page.child(index);
+    const otherNode = other.child(index);
+    
+    if (node.isText || otherNode.isText) {
+      if (!node.eq(otherNode)) return false;
+      continue;
+    }
+    
+    const attrs = JSON.stringify({ ...node.attrs, id: null });
+    const otherAttrs = JSON.stringify({ ...otherNode.attrs, id: null });
+    
+    if (node.type !== otherNode.type || !Mark.sameSet(node.marks, otherNode.marks)) return false;
+    if (attrs !== otherAttrs || !isSamePageContent(node, otherNode)) return false;
+  }
+  
+  return true;
 }
 
 /**
@@ -302,12 +431,14 @@ export class PageComputedContext {
    */
   run(): Transaction {
     const { selection, doc } = this.state;
-    const { inserting, deleting, splitPage }: PageState = this.pageState;
+    const { inserting, deleting, splitPage, sliceDeadline }: PageState = this.pageState;
     
     this.removeElementsWithDuplicateId();
     
     if (splitPage) return this.initComputed();
     
+    if (sliceDeadline !== null) return this.resumeComputed(sliceDeadline);
+    
     if (!inserting && deleting && selection.$head.node(1) === doc.lastChild && !this.tr.steps.length) {
       return this.tr;
     }
@@ -383,49 +514,76 @@ export class PageComputedContext {
 
   /**
    * Compute pagination for the current document state
+   * Only the pages from the first edited one up to the first unchanged page boundary are laid out again
    */
   computed(): Transaction {
-    const tr = this.tr;
     const { selection } = this.state;
+    const { pendingPage } = this.pageState;
+    const startIndex = Math.min(selection.$from.index(0), selection.$head.index(0));
     
-    // @ts-ignore
-     
-    const startNumber = tr.doc.content.findIndex(selection.from).index + 1;
-    // @ts-ignore
-     
-    const curNumber = tr.doc.content.findIndex(selection.head).index + 1;
-
-    if (tr.doc.childCount > 1 && (tr.doc.content.childCount !== curNumber || curNumber !== startNumber)) {
-      this.mergeDocument();
-    }
+    // Pages that scheduled pagination has not reached yet are laid out when it does
+    if (pendingPage !== null && startIndex >= pendingPage) return this.tr;
+    
+    const pending = this.paginateFrom(Math.min(startIndex, this.tr.doc.childCount - 1), pendingPage);
+    if (pendingPage !== null) this.tr.setMeta('paginationPending', pending);
     
-    this.splitDocument();
     return this.tr;
   }
 
   /**
    * Initialize pagination when the document starts loading
+   * With scheduled pagination only the first slice runs here, the page detector schedules the rest
    */
   initComputed(): Transaction {
+    const { pagination } = this.pageState.bodyOptions;
+    
     this.mergeDefaultDocument(1);
+    
+    if (pagination?.scheduled) {
+      return this.resumeComputed(performance.now() + (pagination.timeSlice ?? 16), 0);
+    }
+    
     this.splitDocument();
+    if (this.pageState.pendingPage !== null) this.tr.setMeta('paginationPending', null);
+    
+    return this.tr;
+  }
+
+  /**
+   * Run one slice of scheduled pagination
+   * @param deadline - Time, as returned by `performance.now()`, after which no further page is measured
+   * @param startIndex - Index of the first page to measure, defaults to the first page not laid out yet
+   */
+  resumeComputed(deadline: number, startIndex = this.pageState.pendingPage): Transaction {
+    if (startIndex === null) return this.tr;
+    
+    this.tr.setMeta('paginationPending', this.splitDocument(startIndex, deadline));
     return this.tr;
   }
 
   /**
-   * Recursively split pages until no more splitting is needed
+   * Split pages from the given page onward until every page fits
+   * @param startIndex - Index of the first page to measure
+   * @param deadline - Stop once `performance.now()` passes it, after measuring at least one page
+   * @returns Index of the first page that was not measured, or null when every page fits
    */
-  splitDocument(): void {
+  splitDocument(startIndex = 0, deadline?: number): number | null {
     const { schema } = this.state;
+    let pendingPage: number | null = null;
     
-     
-    for (;;) {
-      // Get the height of the last page, if the return value exists, it means it needs to be split
-      const splitInfo: SplitInfo | null = this.getNodeHeight();
+    for (let index = Math.max(startIndex, 0); index < this.tr.doc.childCount; index++) {
+      if (deadline !== undefined && index > startIndex && performance.now() >= deadline) {
+        pendingPage = index;
+        break;
+      }
+      
+      // Get the height of the page, if the return value exists, it means it needs to be split
+      const splitInfo: SplitInfo | null = this.getNodeHeight(index);
       if (!splitInfo) {
-        break; // When no split is needed (i.e., splitInfo is null), exit the loop
+        continue; // The page fits, move on to the next one
       }
       
+      // The overflow becomes the next page, which is measured on the next iteration
       const type = getNodeType(PAGE, schema);
       this.splitPage({
         pos: splitInfo.pos,
@@ -434,52 +592,121 @@ export class PageComputedContext {
         schema: schema as Schema<string, string>,
       });
     }
+    
+    this.updatePageNumbers();
+    
+    return pendingPage;
   }
 
   /**
-   * Merge pages starting from the count-th page
-   * @param count - Starting page number for merging
+   * Renumber pages in document order, restarting at the first page of sections that ask for it
    */
-  mergeDefaultDocument(count: number): void {
-    const tr = this.tr;
-    
-    while (tr.doc.content.childCount > count) {
-      const nodeSize = tr.doc.content.lastChild?.nodeSize ?? 0;
-      let depth = 1;
+  updatePageNumbers(): void {
+    const { sections } = this.pageState.bodyOptions;
+    let pageNumber = 0;
+    let prevPage: Node | null = null;
+    
+    this.tr.doc.forEach((page, offset) => {
+      const section = page.attrs.section as string | null;
+      const isSectionStart = prevPage !== null && prevPage.attrs.section !== section;
       
-      // Check if we can merge with depth 2
-      if (tr.doc.content.lastChild !== tr.doc.content.firstChild) {
-        const prePage = tr.doc.content.child(tr.doc.content.childCount - 2);
-        const lastPage = tr.doc.content.lastChild;
-        
-        const canMergeDeep = (lastPage?.firstChild?.type === prePage?.lastChild?.type || 
-                             lastPage?.firstChild?.type.name.includes(EXTEND)) &&
-                            lastPage?.firstChild?.attrs?.extend;
-        
-        if (canMergeDeep) depth = 2;
+      pageNumber = isSectionStart && section && sections?.[section]?.restartNumbering ? 1 : pageNumber + 1;
+      
+      if (page.attrs.pageNumber !== pageNumber) {
+        this.tr.setNodeAttribute(offset, 'pageNumber', pageNumber);
+      }
+      
+      prevPage = page;
+    });
+  }
+
+  /**
+   * Repaginate from the given page onward
+   * Each page pulls in the content of the following page and is split again, so content flows both ways.
+   * Stops as soon as a page ends where it ended in the previous layout, as the pages after it are unaffected
+   * @param startIndex - Index of the first affected page
+   * @param pendingPage - First page not laid out yet by scheduled pagination, which is never joined or split here
+   * @returns The pending page after the changes, null when scheduled pagination is not running
+   */
+  paginateFrom(startIndex: number, pendingPage: number | null = null): number | null {
+    const { schema } = this.state;
+    const type = getNodeType(PAGE, schema);
+    let index = Math.max(startIndex, 0);
+    let pending = pendingPage;
+    
+    while (index < this.tr.doc.childCount) {
+      const nextPage = this.tr.doc.maybeChild(index + 1);
+      // The content not laid out yet stays on its own page until scheduled pagination reaches it
+      const canPull = !!nextPage && index + 1 !== pending && isSamePageSetup(this.tr.doc.child(index), nextPage);
+      
+      if (canPull) {
+        this.joinPage(index + 1);
+        if (pending !== null) pending--;
+      }
+      
+      const splitInfo: SplitInfo | null = this.getNodeHeight(index);
+      if (!splitInfo) {
+        // The page has room left, pull in the page after it unless a different page setup starts there
+        if (canPull) continue;
+        break;
       }
       
-      tr.join(tr.doc.content.size - nodeSize, depth);
+      this.splitPage({
+        pos: splitInfo.pos,
+        depth: splitInfo.depth,
+        typesAfter: [{ type }],
+        schema: schema as Schema<string, string>,
+      });
+      if (pending !== null) pending++;
+      
+      if (canPull && isSamePageContent(this.tr.doc.child(index + 1), nextPage)) break;
+      index++;
     }
     
-    this.tr = tr;
+    this.updatePageNumbers();
+    
+    return pending;
   }
 
   /**
-   * Merge remaining documents and paginate the remaining documents
-   * Depth judgment: If the first child tag of the remaining page is an extended type (split type of the main type), 
-   * the depth is 2 when merging. If the first tag is not an extended type, the depth is 1
+   * Merge pages starting from the count-th page
+   * Pages whose setup (orientation or size) differs from the previous page are kept as boundaries
+   * @param count - Starting page number for merging
    */
-  mergeDocument(): void {
+  mergeDefaultDocument(count: number): void {
+    for (let index = this.tr.doc.content.childCount - 1; index >= count; index--) {
+      if (!isSamePageSetup(this.tr.doc.child(index - 1), this.tr.doc.child(index))) continue;
+      
+      this.joinPage(index);
+    }
+  }
+
+  /**
+   * Join a page onto the end of the previous page
+   * Depth judgment: If the first child of the page is an extended type (split type of the main type),
+   * the depth is 2 so the split node is joined back together. Otherwise the depth is 1
+   * @param index - Index of the page to join, greater than 0
+   */
+  joinPage(index: number): void {
     const tr = this.tr;
-    const { selection } = this.state;
+    const prePage = tr.doc.child(index - 1);
+    const page = tr.doc.child(index);
     
-    // @ts-ignore
-     
-    const count = (tr.doc.content.findIndex(selection.head).index + 1) as number;
+    let depth = 1;
     
-    // Merge all pages into one page
-    this.mergeDefaultDocument(count);
+    // Check if we can merge with depth 2
+    const canMergeDeep = (page.firstChild?.type === prePage.lastChild?.type || 
+                         page.firstChild?.type.name.includes(EXTEND)) &&
+                        page.firstChild?.attrs?.extend;
+    
+    if (canMergeDeep) depth = 2;
+    
+    let pagePos = 0;
+    for (let i = 0; i < index; i++) {
+      pagePos += tr.doc.child(i).nodeSize;
+    }
+    
+    tr.join(pagePos, depth);
   }
 
   /**
@@ -587,6 +814,10 @@ export class PageComputedContext {
                 id: getId(),
                  
                 pageNumber: na?.attrs.pageNumber + 1,
+                // The overflow of a page keeps its page setup
+                section: na?.attrs.section,
+                orientation: na?.attrs.orientation,
+                size: na?.attrs.size,
               },
               after
             )
@@ -628,33 +859,44 @@ export class PageComputedContext {
 
   /**
    * Get the point that needs pagination and return it
+   * @param pageIndex - Index of the page to measure, defaults to the last page
    * @returns Split information if pagination is needed, null otherwise
    */
-  getNodeHeight(): SplitInfo | null {
+  getNodeHeight(pageIndex = this.tr.doc.childCount - 1): SplitInfo | null {
     const doc = this.tr.doc;
-    const { bodyOptions } = this.pageState;
-    const splitContext = new SplitContext(this.state.schema, doc, getBodyHeight(bodyOptions), getDefault());
+    const page = doc.child(pageIndex);
+    const pageOptions = resolvePageNodeOptions(this.pageState.bodyOptions, doc, page.attrs, this.state.schema);
+    const measurement = getMeasurementBackend(pageOptions);
+    measurement.resize(pageOptions);
+    const splitContext = new SplitContext(
+      this.state.schema,
+      doc,
+      getBodyHeight(pageOptions),
+      measurement.getDefaultHeight(),
+      page,
+      measurement,
+      pageOptions
+    );
     const nodesComputed = this.nodesComputed;
-    const lastNode = doc.lastChild;
     
     doc.descendants((node: Node, pos: number, parentNode: Node | null) => {
-      if (lastNode !== node && parentNode?.type.name === 'doc') {
+      if (page !== node && parentNode?.type.name === 'doc') {
         return false;
       }
       
       if (!splitContext.pageBoundary()) {
-        let dom = document.querySelector(`[data-id="${node.attrs.id}"]`);
-        if (!dom && node.type.name !== PAGE) {
-          dom = getAbsentHtmlH(node, this.state.schema) ?? null;
-        }
+        if (parentNode === page) splitContext.startBlock(node, pos);
+        
+        const dom = measurement.getElement(node, this.state.schema);
         
         // @ts-ignore
-        return nodesComputed[node.type.name](splitContext, node, pos, parentNode, dom!);
+        return nodesComputed[node.type.name](splitContext, node, pos, parentNode, dom);
       }
       
       return false;
     });
     
+    splitContext.keepWithNext();
     return splitContext.pageBoundary() || null;
   }
 }
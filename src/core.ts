@@ -1,47 +1,444 @@
 'use client';
 /* eslint-disable @typescript-eslint/ban-ts-comment */
-import { DOMSerializer, type Mark, Node, type Schema } from '@tiptap/pm/model';
+import { type Attrs, DOMSerializer, Fragment, type Mark, Node, type Schema } from '@tiptap/pm/model';
 import { type JSONContent } from '@tiptap/core';
 import { createHTMLDocument, type VHTMLDocument } from 'zeed-dom';
 import { type SplitContext } from './computed';
-import { type PageOptions } from './types';
-
+import {
+  type HeadingLevel,
+  type LengthConfig,
+  type LengthUnitValue,
+  type LineSpacingConfig,
+  type MeasurementBackend,
+  type HeaderFooterConfig,
+  type HeaderFooterContent,
+  type HeaderFooterKind,
+  type HeaderFooterVariant,
+  type PageOptions,
+  type PageNumberConfig,
+  type PageOrientation,
+  type PaperSizeConfig,
+  type ParagraphSpacingConfig,
+  LengthUnit,
+  LineSpacingRule,
+  PAPER_SIZE_DIMENSIONS,
+} from './types';
+
+import { PAGE } from './node-names';
 import { getId } from './utils/node';
 
+
+const CSS_PX_PER_INCH = 96;
+
+let sharedUnitConversion: UnitConversion | null = null;
+
+/**
+ * Convert a length in any supported unit to pixels
+ * @param length - Length with unit, missing lengths count as 0
+ * @returns Length in pixels
+ */
+export function lengthToPx(length: LengthConfig | null | undefined): number {
+  if (!length) return 0;
+  
+  sharedUnitConversion ??= new UnitConversion();
+  return sharedUnitConversion.toPx(length.value, length.unit);
+}
+
+/**
+ * Resolve the page margins in pixels
+ * @param options - Page options
+ * @param pageNumber - Page number, whose parity decides the sides of mirrored margins
+ * @returns Margins in pixels, 0.5 inch on every side when no margins are configured
+ */
+export const getPageMargins = (
+  options: PageOptions,
+  pageNumber = 1
+): { top: number; bottom: number; left: number; right: number } => {
+  const margins = options.pageLayout?.margins;
+  
+  if (!margins) {
+    const defaultMargin = lengthToPx({ unit: LengthUnit.Inches, value: 0.5 });
+    return { top: defaultMargin, bottom: defaultMargin, left: defaultMargin, right: defaultMargin };
+  }
+  
+  const inside = lengthToPx(margins.left) + lengthToPx(margins.gutter);
+  const outside = lengthToPx(margins.right);
+  const isEvenPage = margins.mirror === true && pageNumber % 2 === 0;
+  
+  return {
+    top: lengthToPx(margins.top),
+    bottom: lengthToPx(margins.bottom),
+    left: isEvenPage ? outside : inside,
+    right: isEvenPage ? inside : outside,
+  };
+};
+
+export const HEADING_LEVELS: HeadingLevel[] = [1, 2, 3, 4, 5, 6];
+
+
+/**
+ * CSS line height of single line spacing, relative to the font size
+ */
+export const SINGLE_LINE_HEIGHT = 1.15;
+
+/**
+ * Convert a line spacing config to a CSS `line-height` value
+ * @param lineSpacing - Line spacing config
+ * @returns CSS value, or null when no line spacing is configured
+ */
+export const getLineHeight = (lineSpacing: LineSpacingConfig | null | undefined): string | null => {
+  const multipleOf = (multiple: number) => String(Number((SINGLE_LINE_HEIGHT * multiple).toFixed(4)));
+  
+  switch (lineSpacing?.rule) {
+    case LineSpacingRule.Single:
+      return multipleOf(1);
+    case LineSpacingRule.OneAndHalf:
+      return multipleOf(1.5);
+    case LineSpacingRule.Double:
+      return multipleOf(2);
+    case LineSpacingRule.Multiple:
+      return multipleOf(lineSpacing.multiple ?? 1);
+    case LineSpacingRule.Exactly:
+      return `${lengthToPx(lineSpacing.height)}px`;
+    case LineSpacingRule.AtLeast:
+      return `max(${lengthToPx(lineSpacing.height)}px, ${SINGLE_LINE_HEIGHT}em)`;
+    default:
+      return null;
+  }
+};
+
+
+/**
+ * Get the height of one line of page content in pixels, the grid that line numbers follow
+ * @param options - Page options
+ */
+export const getLinePitch = (options: PageOptions): number => {
+  const { lineSpacing } = options.pageLayout ?? {};
+  const fontSize = options.typography?.fontSize ? lengthToPx(options.typography.fontSize) : 16;
+  const singleLine = fontSize * SINGLE_LINE_HEIGHT;
+  
+  switch (lineSpacing?.rule) {
+    case LineSpacingRule.Exactly:
+      return lengthToPx(lineSpacing.height);
+    case LineSpacingRule.AtLeast:
+      return Math.max(lengthToPx(lineSpacing.height), singleLine);
+    default: {
+      const lineHeight = getLineHeight(lineSpacing);
+      return lineHeight ? Number(lineHeight) * fontSize : singleLine;
+    }
+  }
+};
+
+
+type BlockSpacing = { before: number; after: number };
+
+
+function spacingToPx(spacing: ParagraphSpacingConfig | undefined): BlockSpacing {
+  return { before: lengthToPx(spacing?.before), after: lengthToPx(spacing?.after) };
+}
+
+/**
+ * Resolve the spacing of every block type in pixels
+ * @param options - Page options
+ * @returns Spacing before and after paragraphs, each heading level and list items
+ */
+export const getBlockSpacing = (options: PageOptions): {
+  paragraph: BlockSpacing;
+  headings: Record<HeadingLevel, BlockSpacing>;
+  listItem: BlockSpacing;
+} => {
+  const { paragraphSpacing, spacing } = options.pageLayout ?? {};
+  const headings = {} as Record<HeadingLevel, BlockSpacing>;
+  
+  HEADING_LEVELS.forEach((level) => {
+    headings[level] = spacingToPx(spacing?.headingLevels?.[level] ?? spacing?.heading);
+  });
+  
+  return {
+    paragraph: spacingToPx(spacing?.paragraph ?? paragraphSpacing),
+    headings,
+    listItem: spacingToPx(spacing?.listItem),
+  };
+};
+
+/**
+ * Resolve the outer page dimensions in pixels
+ * @param options - Page options
+ * @returns Page height and width, with `bodyHeight`/`bodyWidth` taking precedence over `paperSize`
+ */
+export const getPageDimensions = (options: PageOptions): { height: number; width: number } => {
+  let height = 0;
+  let width = 0;
+
+  if (options.paperSize) {
+    const size = typeof options.paperSize === 'string'
+      ? { ...PAPER_SIZE_DIMENSIONS[options.paperSize], unit: LengthUnit.Mm }
+      : options.paperSize;
+    const shortEdge = Math.round(lengthToPx({ unit: size.unit, value: Math.min(size.width, size.height) }));
+    const longEdge = Math.round(lengthToPx({ unit: size.unit, value: Math.max(size.width, size.height) }));
+
+    height = options.orientation === 'landscape' ? shortEdge : longEdge;
+    width = options.orientation === 'landscape' ? longEdge : shortEdge;
+  }
+
+  return {
+    height: options.bodyHeight ?? height,
+    width: options.bodyWidth ?? width,
+  };
+};
+
+/**
+ * Select the header or footer variant of a page: `first` on page 1, then `even` or `odd`, then `default`
+ * @param config - Header or footer content
+ * @param pageNumber - Page number
+ */
+export const getHeaderFooterVariant = (
+  config: HeaderFooterConfig | null | undefined,
+  pageNumber = 1
+): HeaderFooterVariant => {
+  if (!config || Array.isArray(config)) return 'default';
+  if (pageNumber === 1 && config.first) return 'first';
+  
+  const parity = pageNumber % 2 === 0 ? 'even' : 'odd';
+  return config[parity] ? parity : 'default';
+};
+
+
+/**
+ * Get the header or footer content shown on a page
+ * @param config - Header or footer content
+ * @param pageNumber - Page number
+ */
+export const getHeaderFooterContent = (
+  config: HeaderFooterConfig | null | undefined,
+  pageNumber = 1
+): HeaderFooterContent => {
+  if (!config) return [];
+  if (Array.isArray(config)) return config;
+  
+  return config[getHeaderFooterVariant(config, pageNumber)] ?? [];
+};
+
+
+/**
+ * Replace header and footer variants with the content shown on a page
+ */
+const resolveHeaderFooterVariants = (options: PageOptions, pageNumber?: number): PageOptions => {
+  const { headerData, footerData } = options;
+  
+  if ((!headerData || Array.isArray(headerData)) && (!footerData || Array.isArray(footerData))) return options;
+  
+  return {
+    ...options,
+    headerData: getHeaderFooterContent(headerData, pageNumber),
+    footerData: getHeaderFooterContent(footerData, pageNumber),
+  };
+};
+
+
+/**
+ * Apply the `section`, `orientation` and `size` attributes of a page node on top of the global options,
+ * and pick the header and footer variants for its `pageNumber`
+ * @param globalOptions - Global page options
+ * @param attrs - Attributes of the page node
+ * @returns Options describing that page, with resolved `bodyHeight`/`bodyWidth` when its size changes
+ */
+export const resolvePageOptions = (globalOptions: PageOptions, attrs?: Attrs | null): PageOptions => {
+  const options = resolveHeaderFooterVariants(globalOptions, attrs?.pageNumber as number | undefined);
+  const sectionName = attrs?.section as string | null | undefined;
+  const section = sectionName ? options.sections?.[sectionName] : undefined;
+  const size = (attrs?.size as PaperSizeConfig | null | undefined) ?? section?.paperSize;
+  const orientation = (attrs?.orientation as PageOrientation | null | undefined) ?? section?.orientation;
+
+  if (!section && !size && !orientation) return options;
+
+  const sectionOptions: PageOptions = section
+    ? {
+        ...options,
+        pageLayout: { ...options.pageLayout, ...section.pageLayout },
+        pageNumber: { ...options.pageNumber, ...section.pageNumber } as PageNumberConfig,
+      }
+    : options;
+
+  if (!size && !orientation) return sectionOptions;
+
+  const { height, width } = getPageDimensions(
+    size ? { ...sectionOptions, paperSize: size, bodyHeight: undefined, bodyWidth: undefined } : sectionOptions
+  );
+  const isLandscape = (orientation ?? options.orientation) === 'landscape';
+
+  return {
+    ...sectionOptions,
+    bodyHeight: isLandscape ? Math.min(height, width) : Math.max(height, width),
+    bodyWidth: isLandscape ? Math.max(height, width) : Math.min(height, width),
+  };
+};
+
+
+/**
+ * Check whether two page nodes share the same page setup
+ * A page starting with a section break never continues the page before it, even in the same section
+ * @param page - Page node
+ * @param otherPage - Page node following it
+ */
+export const isSamePageSetup = (page: Node, otherPage: Node): boolean => {
+  return !otherPage.attrs.sectionBreak &&
+    page.attrs.section === otherPage.attrs.section &&
+    page.attrs.orientation === otherPage.attrs.orientation &&
+    JSON.stringify(page.attrs.size) === JSON.stringify(otherPage.attrs.size);
+};
+
  
+/**
+ * Apply the header and footer content stored in the document, which takes precedence over `headerData` and `footerData`
+ * @param options - Page options
+ * @param doc - Document node
+ * @returns Page options with the document's header and footer content
+ */
+export const resolveDocumentOptions = (options: PageOptions, doc?: Node | null): PageOptions => {
+  const header = doc?.attrs.header as HeaderFooterConfig | null | undefined;
+  const footer = doc?.attrs.footer as HeaderFooterConfig | null | undefined;
+  
+  if (header == null && footer == null) return options;
+  
+  return {
+    ...options,
+    headerData: header ?? options.headerData,
+    footerData: footer ?? options.footerData,
+  };
+};
+
+
+/**
+ * Get the heights of the header and footer regions, 0 when a region has nothing to show
+ * @param options - Page options, resolved for a page to pick its header and footer variants
+ */
+export const getHeaderFooterHeights = (options: PageOptions): { header: number; footer: number } => {
+  const { pageNumber } = options;
+  const showHeader = getHeaderFooterContent(options.headerData).length > 0 ||
+    (pageNumber?.show && pageNumber?.position === 'top');
+  const showFooter = getHeaderFooterContent(options.footerData).length > 0 ||
+    (pageNumber?.show && pageNumber?.position === 'bottom');
+  
+  return {
+    header: showHeader ? (options.headerHeight ?? 30) : 0,
+    footer: showFooter ? (options.footerHeight ?? 30) : 0,
+  };
+};
+
+
+/**
+ * Get the vertical layout of a page: where the header and footer start and how much space they take above and below the body
+ * Without a distance from the edge the header and footer sit inside the margins, otherwise the body starts at the
+ * top margin or below the header, whichever is lower. A letterhead pushes the header and the body below it
+ * @param options - Page options, resolved for a page
+ * @returns Offsets from the page edges in pixels
+ */
+export const getHeaderFooterLayout = (options: PageOptions): {
+  headerTop: number;
+  bodyTop: number;
+  bodyBottom: number;
+  footerBottom: number;
+} => {
+  const { header, footer } = getHeaderFooterHeights(options);
+  const { top, bottom } = getPageMargins(options);
+  const { headerDistance, footerDistance } = options.headerFooter ?? {};
+  const letterheadBottom = options.letterhead ? lengthToPx(options.letterhead.height) : 0;
+  const headerTop = Math.max(headerDistance ? lengthToPx(headerDistance) : top, letterheadBottom);
+  const footerBottom = footerDistance ? lengthToPx(footerDistance) : bottom;
+  
+  return {
+    headerTop,
+    bodyTop: headerDistance ? Math.max(top, headerTop + header) : Math.max(top, headerTop) + header,
+    bodyBottom: footerDistance ? Math.max(bottom, footerBottom + footer) : bottom + footer,
+    footerBottom,
+  };
+};
+
+
 export const getBodyHeight = (options: PageOptions): number => {
-  const { pageLayout, pageNumber } = options;
+  const { bodyTop, bodyBottom } = getHeaderFooterLayout(options);
   
+  return getPageDimensions(options).height - bodyTop - bodyBottom;
+};
+
 
-  const headerHeight = pageNumber?.show && pageNumber?.position === 'top' 
-    ? (options.headerHeight ?? 30)
-    : 0;
+/**
+ * Replace fixed header and footer heights with the measured height of their content
+ * Regions that only show the page number keep the fixed height
+ */
+const measureHeaderFooter = (options: PageOptions, schema: Schema): PageOptions => {
+  const maxHeight = options.headerFooter?.maxHeight ? lengthToPx(options.headerFooter.maxHeight) : Infinity;
+  const width = getBodyWidth(options);
+  
+  const measure = (kind: HeaderFooterKind, content: HeaderFooterContent, fixedHeight: number) => {
+    if (!content.length) return fixedHeight;
     
-  const footerHeight = pageNumber?.show && pageNumber?.position === 'bottom' 
-    ? (options.footerHeight ?? 30)
-    : 0;
+    const measured = Math.min(getMeasurementBackend(options).getHeaderFooterHeight(kind, content, schema, width), maxHeight);
+    const showsPageNumber = options.pageNumber?.show && options.pageNumber.position === (kind === 'header' ? 'top' : 'bottom');
+    
+    return showsPageNumber ? Math.max(measured, fixedHeight) : measured;
+  };
   
+  return {
+    ...options,
+    headerHeight: measure('header', getHeaderFooterContent(options.headerData), options.headerHeight ?? 30),
+    footerHeight: measure('footer', getHeaderFooterContent(options.footerData), options.footerHeight ?? 30),
+  };
+};
+
 
-  const marginHeight = pageLayout?.margins 
-    ? (pageLayout.margins.top.value + pageLayout.margins.bottom.value) * 96
-    : 96; 
+/**
+ * Resolve the options of a page node: the document's header and footer, the page attributes,
+ * the letterhead of the first page, and the measured header and footer heights when they are sized automatically
+ * @param options - Global page options
+ * @param doc - Document node
+ * @param attrs - Attributes of the page node
+ * @param schema - Editor schema, used to measure header and footer content
+ */
+export const resolvePageNodeOptions = (
+  options: PageOptions,
+  doc: Node | null | undefined,
+  attrs: Attrs | null | undefined,
+  schema?: Schema
+): PageOptions => {
+  const resolved = resolvePageOptions(resolveDocumentOptions(options, doc), attrs);
+  // The letterhead belongs to the first page of the document, not the first page of each section
+  const isFirstPage = doc
+    ? doc.firstChild?.attrs === attrs || (!!attrs?.id && doc.firstChild?.attrs.id === attrs.id)
+    : attrs?.pageNumber === 1;
+  const pageOptions = resolved.letterhead && !isFirstPage ? { ...resolved, letterhead: undefined } : resolved;
   
-  return options.bodyHeight - marginHeight - (headerHeight + footerHeight);
+  return pageOptions.headerFooter?.autoSize && schema ? measureHeaderFooter(pageOptions, schema) : pageOptions;
 };
 
 
 export const getBodyWidth = (options: PageOptions): number => {
-  const { pageLayout } = options;
-  
-
-  const marginWidth = pageLayout?.margins 
-    ? (pageLayout.margins.left.value + pageLayout.margins.right.value) * 96
-    : 96; 
+  const { left, right } = getPageMargins(options);
+  const marginWidth = left + right;
   
-  return options.bodyWidth - marginWidth;
+  return getPageDimensions(options).width - marginWidth;
 };
 
 
+/**
+ * Serialize header or footer content to HTML with the editor schema
+ * @param content - Header or footer blocks, blocks the schema cannot parse are left out
+ * @param schema - Editor schema
+ */
+export function getHeaderFooterHtml(content: HeaderFooterContent, schema: Schema): string {
+  const nodes = content.flatMap((block) => {
+    try {
+      return [schema.nodeFromJSON(block)];
+    } catch {
+      return [];
+    }
+  });
+  const fragment = Fragment.fromArray(nodes);
+  return getHTMLFromFragment(schema.topNodeType.create(null, fragment), schema, { document });
+}
+
+
 export function getHTMLFromFragment(
   doc: Node, 
   schema: Schema, 
@@ -397,6 +794,73 @@ export class UnitConversion {
   pxConversionPt(value: number): number {
     return (value * 72) / 96;
   }
+
+
+  inConversionPx(value: number): number {
+    return value * this.getDPI();
+  }
+
+
+  pxConversionIn(value: number): number {
+    return value / this.getDPI();
+  }
+
+
+  cmConversionPx(value: number): number {
+    return (value / 2.54) * this.getDPI();
+  }
+
+
+  pxConversionCm(value: number): number {
+    return (value / this.getDPI()) * 2.54;
+  }
+
+  /**
+   * Convert a value in any supported unit to pixels without rounding
+   * @param value - Value to convert
+   * @param unit - Unit of the value
+   * @returns Value in pixels
+   */
+  toPx(value: number, unit: LengthUnitValue): number {
+    switch (unit) {
+      case LengthUnit.Pts:
+        return this.ptConversionPx(value);
+      case LengthUnit.Mm:
+        return this.cmConversionPx(value / 10);
+      case LengthUnit.Cm:
+        return this.cmConversionPx(value);
+      case LengthUnit.Inches:
+        return this.inConversionPx(value);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Convert a pixel value to any supported unit without rounding
+   * @param value - Value in pixels
+   * @param unit - Target unit
+   * @returns Value in the target unit
+   */
+  fromPx(value: number, unit: LengthUnitValue): number {
+    switch (unit) {
+      case LengthUnit.Pts:
+        return this.pxConversionPt(value);
+      case LengthUnit.Mm:
+        return this.pxConversionCm(value) * 10;
+      case LengthUnit.Cm:
+        return this.pxConversionCm(value);
+      case LengthUnit.Inches:
+        return this.pxConversionIn(value);
+      default:
+        return value;
+    }
+  }
+
+
+  private getDPI(): number {
+    return (this.arrDPI[0] as number) || CSS_PX_PER_INCH;
+  }
 }
 
   
@@ -404,6 +868,8 @@ const dimensionCache = new Map<string, { height: number; width: number }>();
 
 const valueCache = new Map<string, number>();
 
+const headerFooterHeightCache = new Map<string, number>();
+
 
 export function computedHeight(html: string, id: string): number {
   const computeddiv = iframeDoc?.getElementById('computeddiv');
@@ -427,6 +893,36 @@ export function computedHeight(html: string, id: string): number {
 }
 
 
+/**
+ * Measure header or footer content in the measurement iframe
+ * @param kind - Header or footer, selects the region styles
+ * @param html - Content HTML
+ * @param width - Width of the region in pixels
+ * @returns Height of the region in pixels, 0 before the iframe is built
+ */
+export function computedHeaderFooterHeight(kind: HeaderFooterKind, html: string, width: number): number {
+  const key = `${kind}:${width}:${html}`;
+  if (headerFooterHeightCache.has(key)) {
+    return headerFooterHeightCache.get(key) as number;
+  }
+  
+  const container = iframeDoc?.getElementById('computeddiv')?.parentElement;
+  if (!container || !iframeDoc) return 0;
+  
+  const region = iframeDoc.createElement('div');
+  region.className = kind;
+  region.style.width = `${width}px`;
+  region.innerHTML = `<div class="${kind}-content">${html}</div>`;
+  container.append(region);
+  
+  const height = region.getBoundingClientRect().height;
+  region.remove();
+  headerFooterHeightCache.set(key, height);
+  
+  return height;
+}
+
+
 export function computedWidth(html: string, cache = true): { height: number; width: number } {
   if (dimensionCache.has(html)) {
     return dimensionCache.get(html) as { height: number; width: number };
@@ -541,6 +1037,18 @@ export function getDomPaddingAndMargin(dom: HTMLElement): number {
   return padding + margin + border;
 }
 
+/**
+ * Get the line height of a DOM element, falling back to single spacing for `normal`
+ * @param dom - The DOM element to measure
+ * @returns Line height in pixels
+ */
+export function getDomLineHeight(dom: HTMLElement): number {
+  const style = window.getComputedStyle(dom);
+  const lineHeight = parseFloat(style.lineHeight);
+  
+  return Number.isFinite(lineHeight) ? lineHeight : (parseFloat(style.fontSize) || 16) * SINGLE_LINE_HEIGHT;
+}
+
 /**
  * Get the total height of a DOM element including margins and padding
  * @param dom - The DOM element to measure
@@ -612,7 +1120,8 @@ function iframeDocAddP(): void {
     const p = iframeDoc?.createElement('p');
     if (!p) return;
     
-    p.classList.add('text-editor');
+    // Measured inside the page content styles so widths and line heights match the editor
+    p.classList.add('text-editor', 'PageContent');
     p.setAttribute('id', 'computedspan');
     p.setAttribute('style', 'display: inline-block');
     p.innerHTML = '&nbsp;';
@@ -628,14 +1137,14 @@ function iframeDocAddDiv(options: PageOptions): void {
     const dom = iframeDoc?.createElement('div');
     if (!dom) return;
     
-    dom.setAttribute('class', 'Page prose prose-base text-text-900 font-arial');
+    dom.setAttribute('class', 'Page prose prose-base text-text-900');
     dom.setAttribute(
       'style',
       'opacity: 0;position: absolute;max-width:' +
         getBodyWidth(options) +
         'px;width:' +
         getBodyWidth(options) +
-        'px; padding: 0px !important; overflow-wrap: break-word; line-height: 2;'
+        'px; padding: 0px !important; overflow-wrap: break-word;'
     );
     
     const content = iframeDoc?.createElement('div');
@@ -650,6 +1159,21 @@ function iframeDocAddDiv(options: PageOptions): void {
 }
 
 
+/**
+ * Resize the measurement container to the body width of a page
+ * @param options - Options of the page being measured
+ */
+export function resizeComputedHtml(options: PageOptions): void {
+  const container = iframeDoc?.getElementById('computeddiv')?.parentElement;
+  
+  if (!container) return;
+  
+  const width = getBodyWidth(options);
+  container.style.maxWidth = width + 'px';
+  container.style.width = width + 'px';
+}
+
+
 export function removeComputedHtml(): void {
   const iframeComputed1 = document.getElementById('computediframe');
   
@@ -661,8 +1185,16 @@ export function removeComputedHtml(): void {
 }
 
 
-export function buildComputedHtml(options: PageOptions): void {
+/**
+ * Build the hidden measurement iframe for the given options
+ * @param options - Page options used for the measurement container
+ * @returns Promise resolving once the copied stylesheets have loaded, or null when none are pending
+ */
+export function buildComputedHtml(options: PageOptions): Promise<void> | null {
   removeComputedHtml();
+  dimensionCache.clear();
+  valueCache.clear();
+  headerFooterHeightCache.clear();
   
   iframeComputed = document.createElement('iframe');
   document.body.appendChild(iframeComputed);
@@ -677,15 +1209,18 @@ export function buildComputedHtml(options: PageOptions): void {
     'width: 100%;height: 100%; position: absolute; top:-4003px; left:-4003px; z-index: -89;'
   );
   
-  if (!iframeDoc) return;
+  if (!iframeDoc) return null;
   
-  copyStylesToIframe(iframeDoc);
+  const stylesLoaded = copyStylesToIframe(iframeDoc);
   iframeDocAddP();
   iframeDocAddDiv(options);
+  
+  return stylesLoaded;
 }
 
 
-function copyStylesToIframe(iframeContentDoc: Document): void {
+function copyStylesToIframe(iframeContentDoc: Document): Promise<void> | null {
+  const pendingLinks: Promise<void>[] = [];
 
   const links = document.getElementsByTagName('link');
   for (const link of links) {
@@ -694,6 +1229,10 @@ function copyStylesToIframe(iframeContentDoc: Document): void {
       newLink.rel = 'stylesheet';
       newLink.type = 'text/css';
       newLink.href = link?.href ?? '';
+      pendingLinks.push(new Promise((resolve) => {
+        newLink.onload = () => resolve();
+        newLink.onerror = () => resolve();
+      }));
       iframeContentDoc.head.appendChild(newLink);
     }
   }
@@ -716,4 +1255,37 @@ function copyStylesToIframe(iframeContentDoc: Document): void {
   }
   
   iframeDoc?.body.classList.add('prose', 'prose-base');
+  
+  return pendingLinks.length ? Promise.all(pendingLinks).then(() => undefined) : null;
 }
+
+
+/**
+ * Default measurement backend: nodes are measured from their element in the editor,
+ * or rendered into the hidden iframe when they are not in the editor
+ */
+export const domMeasurementBackend: MeasurementBackend = {
+  prepare: (options) => buildComputedHtml(options),
+  resize: (options) => resizeComputedHtml(options),
+  clear: () => removeAbsentHtmlH(),
+  getElement: (node, schema) => {
+    const dom = document.querySelector<HTMLElement>(`[data-id="${node.attrs.id}"]`);
+    return dom || node.type.name === PAGE ? dom : getAbsentHtmlH(node, schema);
+  },
+  getHeight: (_node, dom) => (dom ? getDomHeight(dom) : 0),
+  getSpacing: (_node, dom) => (dom ? getDomPaddingAndMargin(dom) : 0),
+  getContentSpacing: (_node, dom) => (dom ? getContentSpacing(dom) : 0),
+  getDefaultHeight: () => getDefault(),
+  getLineHeight: (_node, dom) => (dom ? getDomLineHeight(dom) : 0),
+  getBreakPos: (node, dom, splitContext) => (dom ? getBreakPos(node, dom, splitContext) : null),
+  getHeaderFooterHeight: (kind, content, schema, width) =>
+    computedHeaderFooterHeight(kind, getHeaderFooterHtml(content, schema), width),
+};
+
+
+/**
+ * Get the measurement backend configured in the page options
+ * @param options - Page options
+ */
+export const getMeasurementBackend = (options: PageOptions): MeasurementBackend =>
+  options.measurementBackend ?? domMeasurementBackend;
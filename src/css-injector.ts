@@ -1,3 +1,5 @@
+import { type PageOptions } from './types';
+import { HEADING_LEVELS, getBlockSpacing, getLineHeight, lengthToPx } from './core';
 
 
 let stylesInjected = false;
@@ -28,7 +30,6 @@ const PAGE_EXTENSION_CSS = `
   padding-bottom: 8px; /* Add some bottom padding */
   font-size: 11pt;
   color: #666;
-  font-family: 'Times New Roman', serif;
 }
 
 /* Header styling for page numbers at top */
@@ -39,7 +40,81 @@ const PAGE_EXTENSION_CSS = `
   padding-top: 8px; /* Add some top padding */
   font-size: 11pt;
   color: #666;
-  font-family: 'Times New Roman', serif;
+}
+
+/* Document header and footer content, stretched across the region */
+.Page .header-content,
+.Page .footer-content,
+.Page .header-editor,
+.Page .footer-editor {
+  flex: 1;
+  align-self: stretch;
+  min-width: 0;
+  overflow: hidden;
+}
+
+.Page .header-content p,
+.Page .footer-content p,
+.Page .header-editor p,
+.Page .footer-editor p {
+  margin: 0;
+}
+
+/* Watermark centred behind the page content, outside the editable area */
+.Page .watermark {
+  position: absolute;
+  inset: 0;
+  z-index: -1;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  overflow: hidden;
+  pointer-events: none;
+  user-select: none;
+}
+
+.Page .watermark-text {
+  font-weight: bold;
+  white-space: nowrap;
+  text-transform: uppercase;
+}
+
+/* Page border, positioned by the page from its edge or around the text */
+.Page .page-border {
+  position: absolute;
+  box-sizing: border-box;
+  pointer-events: none;
+}
+
+/* Letterhead items are positioned from the page edge */
+.Page .letterhead-item {
+  position: absolute;
+  overflow: hidden;
+  user-select: none;
+}
+
+.Page .letterhead-item p {
+  margin: 0;
+}
+
+/* Pleading-paper line numbers in the left margin */
+.Page .line-numbers {
+  position: absolute;
+  top: 0;
+  left: 0;
+  height: 100%;
+  box-sizing: border-box;
+  padding-right: 6px;
+  overflow: hidden;
+  text-align: right;
+  font-size: 10pt;
+  color: #666;
+  pointer-events: none;
+  user-select: none;
+}
+
+.Page .line-numbers-rule {
+  border-right: 1px solid #999;
 }
 
 /* Reduce gap between page nodes created by PageExtension */
@@ -52,25 +127,18 @@ div.react-renderer.node-page {
   height: 1000px;
 }
 
-/* Additional spacing control for page content */
+/* Wrap long words like the measurement container; fonts come from the layout styles */
 .PageContent {
-  line-height: 1.6;
-  font-family: 'Times New Roman', serif;
-  font-size: 12pt;
-  color: #333;
+  overflow-wrap: break-word;
 }
 
-.PageContent p {
-  margin-top: 0;
-  margin-bottom: 0;
-}
-
-.PageContent div > p,
-.PageContent h1,
-.PageContent h2,
-.PageContent h3 {
-  margin-top: 16px;
-  margin-bottom: 16px;
+/* Print the watermark and line number colours as configured */
+@media print {
+  .Page .watermark,
+  .Page .line-numbers {
+    -webkit-print-color-adjust: exact;
+    print-color-adjust: exact;
+  }
 }
 
 /* Responsive adjustments */
@@ -134,3 +202,82 @@ export function removePageExtensionStyles(): void {
 export function areStylesInjected(): boolean {
   return stylesInjected;
 }
+
+
+export const PAGE_LAYOUT_STYLES_ID = 'page-extension-layout-styles';
+
+/**
+ * Build the page look, typography, line height and block spacing rules for the configured page layout
+ * The rules are copied into the measurement iframe so rendered and measured heights agree
+ * @param options - Page options
+ * @returns CSS text
+ */
+export function getPageLayoutCss(options: PageOptions): string {
+  const spacing = getBlockSpacing(options);
+  const lineHeight = getLineHeight(options.pageLayout?.lineSpacing);
+  const { fontFamily, fontSize, color } = options.typography ?? {};
+  const declarations = (properties: Record<string, string | null | undefined>) =>
+    Object.entries(properties)
+      .filter(([, value]) => value)
+      .map(([property, value]) => `  ${property}: ${value};\n`)
+      .join('');
+  const rule = (selector: string, { before, after }: { before: number; after: number }) =>
+    `${selector} {\n  margin-top: ${before}px;\n  margin-bottom: ${after}px;\n}\n`;
+  const contentDeclarations = declarations({
+    'font-family': fontFamily,
+    'font-size': fontSize && `${lengthToPx(fontSize)}px`,
+    color,
+    'line-height': lineHeight,
+  });
+  
+  const { pageBackground, pageBorder } = options;
+  const pageDeclarations = (pageBackground || pageBorder) && declarations({
+    'background-color': pageBackground?.color,
+    'background-image': pageBackground?.image && `url("${pageBackground.image}")`,
+    'background-size': pageBackground?.image && (pageBackground.size ?? 'cover'),
+    'background-position': pageBackground?.image && 'center',
+    'background-repeat': pageBackground?.image && 'no-repeat',
+    'border-radius': '0',
+    'box-shadow': 'none',
+  });
+  
+  const pageRules = pageDeclarations ? [
+    `.Page {\n${pageDeclarations}}\n`,
+    // Browsers skip backgrounds when printing unless asked to keep them
+    '@media print {\n  .Page {\n    -webkit-print-color-adjust: exact;\n    print-color-adjust: exact;\n  }\n}\n',
+  ] : [];
+  
+  return [
+    ...pageRules,
+    ...(contentDeclarations ? [`.PageContent {\n${contentDeclarations}}\n`] : []),
+    ...(fontFamily ? [`.Page .header,\n.Page .footer {\n${declarations({ 'font-family': fontFamily })}}\n`] : []),
+    ...(fontFamily ? [`.Page .line-numbers {\n${declarations({ 'font-family': fontFamily })}}\n`] : []),
+    rule('.PageContent p', spacing.paragraph),
+    ...HEADING_LEVELS.map((level) => rule(`.PageContent h${level}`, spacing.headings[level])),
+    rule('.PageContent li', spacing.listItem),
+    rule('.PageContent li > p', { before: 0, after: 0 }),
+  ].join('\n');
+}
+
+
+export function injectPageLayoutStyles(options: PageOptions): void {
+  try {
+    let layoutStyleElement = document.getElementById(PAGE_LAYOUT_STYLES_ID);
+    
+    if (!layoutStyleElement) {
+      layoutStyleElement = document.createElement('style');
+      layoutStyleElement.id = PAGE_LAYOUT_STYLES_ID;
+      document.head.appendChild(layoutStyleElement);
+    }
+    
+    layoutStyleElement.textContent = getPageLayoutCss(options);
+
+  } catch (error) {
+    console.error('❌ Failed to inject PageExtension layout styles:', error);
+  }
+}
+
+
+export function removePageLayoutStyles(): void {
+  document.getElementById(PAGE_LAYOUT_STYLES_ID)?.remove();
+}
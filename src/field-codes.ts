@@ -0,0 +1,102 @@
+import { type JSONContent } from '@tiptap/core';
+import { type Node } from '@tiptap/pm/model';
+import { type DocumentMetadata, type HeaderFooterContent } from './types';
+import { HEADING } from './node-names';
+
+
+/** Matches field codes such as `{PAGE}` or `{CASE_NUMBER}` */
+export const FIELD_CODE_PATTERN = /\{([A-Za-z][\w.-]*)\}/g;
+
+
+export interface FieldCodeContext {
+  /** Page number, formatted when a page number format applies */
+  pageNumber: number | string;
+  /** Page count, formatted and counted from `startAt` like the page numbers */
+  totalPages: number | string;
+  sectionPages: number;
+  /** Text of the last heading that starts on or before the page */
+  runningHeading?: string | null;
+  metadata?: DocumentMetadata | null;
+  date?: Date;
+}
+
+
+/**
+ * Get the values of the built-in field codes and the document metadata for a page
+ * Metadata can override `{DATE}`, but not the page counts or the running heading
+ * @param context - Page being rendered
+ * @returns Field values by field name
+ */
+export function getFieldValues(context: FieldCodeContext): Record<string, string> {
+  const metadata = context.metadata ?? {};
+
+  return {
+    DATE: (context.date ?? new Date()).toLocaleDateString(),
+    ...metadata,
+    TITLE: metadata.TITLE ?? metadata.title ?? '',
+    PAGE: String(context.pageNumber),
+    NUMPAGES: String(context.totalPages),
+    SECTIONPAGES: String(context.sectionPages),
+    HEADING: context.runningHeading ?? '',
+  };
+}
+
+
+/**
+ * Replace field codes in the text of header or footer content, unknown fields are kept as typed
+ * @param content - Header or footer blocks
+ * @param values - Field values by field name
+ */
+export function resolveFieldCodes(content: HeaderFooterContent, values: Record<string, string>): HeaderFooterContent {
+  const resolve = (node: JSONContent): JSONContent => ({
+    ...node,
+    ...(node.text !== undefined && {
+      text: node.text.replace(FIELD_CODE_PATTERN, (code, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : code
+      ),
+    }),
+    ...(node.content && { content: node.content.map(resolve) }),
+  });
+
+  return content.map(resolve);
+}
+
+
+/**
+ * Count the pages of the section a page belongs to, a section being a run of pages with the same `section` attribute
+ * @param doc - Document node
+ * @param pageIndex - Index of the page in the document
+ */
+export function getSectionPageCount(doc: Node, pageIndex: number): number {
+  const section = doc.maybeChild(pageIndex)?.attrs.section as string | null | undefined;
+  let start = pageIndex;
+  let end = pageIndex;
+
+  while (start > 0 && doc.child(start - 1).attrs.section === section) start--;
+  while (end < doc.childCount - 1 && doc.child(end + 1).attrs.section === section) end++;
+
+  return end - start + 1;
+}
+
+
+/**
+ * Find the text of the last heading, up to the running header level, that starts on or before a page
+ * Continuations of headings split across pages are skipped, they started on an earlier page
+ * @param doc - Document node
+ * @param pageIndex - Index of the page in the document
+ * @param level - Deepest heading level that counts
+ */
+export function getRunningHeading(doc: Node, pageIndex: number, level = 1): string | null {
+  for (let index = Math.min(pageIndex, doc.childCount - 1); index >= 0; index--) {
+    const page = doc.child(index);
+
+    for (let childIndex = page.childCount - 1; childIndex >= 0; childIndex--) {
+      const node = page.child(childIndex);
+      if (node.type.name === HEADING && !node.attrs.extend && ((node.attrs.level as number | undefined) ?? 1) <= level) {
+        return node.textContent;
+      }
+    }
+  }
+
+  return null;
+}
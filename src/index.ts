@@ -10,22 +10,80 @@ export type {
   PageOptions,
   PageLayoutConfig,
   PageNumberConfig,
+  PageSectionConfig,
+  LineNumberingConfig,
+  LineSpacingConfig,
+  TypographyConfig,
+  WatermarkConfig,
+  LetterheadConfig,
+  LetterheadItem,
+  PageBorderConfig,
+  PageBorderStyle,
+  PageBackgroundConfig,
+  HeaderFooterContent,
+  HeaderFooterKind,
+  HeaderFooterVariant,
+  HeaderFooterVariants,
+  HeaderFooterConfig,
+  PageExtensionStorage,
+  DocumentMetadata,
+  NodeSpacingConfig,
+  HeadingLevel,
   PageMargins,
   MarginConfig,
+  LengthConfig,
+  LengthUnitValue,
   ParagraphSpacingConfig,
   PageNumberPosition,
-  PageNumberAlignment
+  PageNumberAlignment,
+  PageNumberFormatValue,
+  PageOrientation,
+  PaperSizeConfig,
+  CustomPaperSize,
+  PageOptionsUpdate,
+  PageOptionsIssue,
+  PageOptionsValidationResult,
+  MeasurementBackend,
+  PaginationConfig,
+  PaginationProgress,
+  ComputedFn,
+  NodesComputed
 } from './types';
 
 
 export {
   MarginUnit,
   ParagraphSpacingUnit,
+  PaperSize,
+  LengthUnit,
+  LineSpacingRule,
+  PageNumberFormat,
+  PAPER_SIZE_DIMENSIONS,
   DEFAULT_PAGE_OPTIONS
 } from './types';
 
 
-export { UnitConversion } from './core';
+export { UnitConversion, getPageDimensions, getPageMargins, lengthToPx, domMeasurementBackend } from './core';
+
+
+export { createCanvasMeasurementBackend } from './canvas-measurement';
+export type { CanvasMeasurementOptions, TextWidthFn } from './canvas-measurement';
+
+
+export { validatePageOptions, validatePageSetup } from './validation';
+
+
+export { getFieldValues, resolveFieldCodes } from './field-codes';
+
+
+export { formatPageNumber, getDisplayPageCount, getDisplayPageNumber, getPageNumberLabel } from './page-number';
+
+
+export { whenPaginated } from './page-plugin';
+
+
+export { emitter as pageEvents } from './page-component/events';
+export type { PageEvents } from './page-component/events';
 
 
 export { PAGE } from './node-names';
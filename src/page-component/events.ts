@@ -1,6 +1,14 @@
 import mitt from 'mitt';
+import { type Attrs, type Node } from '@tiptap/pm/model';
+import { type Editor } from '@tiptap/core';
+import { type PageOptions, type PaginationProgress } from '../types';
 
-type PageEvents = {
+export type PageEvents = {
   totalPageChange: number;
+  pageLayoutChange: PageOptions;
+  documentAttrsChange: Attrs;
+  documentChange: { editor: Editor; doc: Node };
+  paginationProgress: PaginationProgress;
+  headerFooterEditorChange: Editor | null;
 };
 export const emitter = mitt<PageEvents>();
@@ -0,0 +1,104 @@
+import { type KeyboardEvent, useEffect, useRef } from 'react';
+import { EditorContent, useEditor } from '@tiptap/react';
+import { type Editor, type Extensions, Node } from '@tiptap/core';
+import { type HeaderFooterContent, type HeaderFooterKind, type HeaderFooterVariant, type PageExtensionStorage } from '../types';
+import { PAGE, PARAGRAPH } from '../node-names';
+import { emitter } from './events';
+
+// Pointer-downs inside elements with this attribute, e.g. a formatting toolbar, keep the editor open
+export const HEADER_FOOTER_TOOLBAR_ATTRIBUTE = 'data-header-footer-toolbar';
+
+// Pagination and collaboration extensions are bound to the main document
+const EXCLUDED_EXTENSIONS = ['doc', PAGE, 'PageExtension', 'PageKeyMap', 'collaboration', 'collaborationCursor'];
+
+
+const HeaderFooterDocument = Node.create({
+  name: 'doc',
+  topNode: true,
+  content: 'block+',
+});
+
+
+const getHeaderFooterExtensions = (editor: Editor): Extensions => [
+  HeaderFooterDocument,
+  ...editor.extensionManager.extensions.filter((extension) => !EXCLUDED_EXTENSIONS.includes(extension.name)),
+];
+
+
+interface HeaderFooterEditorProps {
+  editor: Editor;
+  kind: HeaderFooterKind;
+  variant: HeaderFooterVariant;
+  content: HeaderFooterContent;
+  onClose: () => void;
+}
+
+/**
+ * HeaderFooterEditor - Edits the document header or footer in place on a page
+ *
+ * Uses the block and mark extensions of the main editor, and writes the content of the page's variant
+ * back to the document on a pointer-down outside of it or its toolbars, or when Escape is pressed.
+ * While open, it is published as `editor.storage.PageExtension.headerFooterEditor` for toolbars to target
+ */
+export const HeaderFooterEditor = ({ editor, kind, variant, content, onClose }: HeaderFooterEditorProps) => {
+  const headerFooterEditor = useEditor({
+    extensions: getHeaderFooterExtensions(editor),
+    content: { type: 'doc', content: content.length ? content : [{ type: PARAGRAPH }] },
+    autofocus: 'end',
+  });
+
+  const closed = useRef(false);
+
+  const save = () => {
+    if (closed.current) return;
+    closed.current = true;
+
+    if (headerFooterEditor && !editor.isDestroyed) {
+      editor.commands.setHeaderFooter(
+        kind,
+        headerFooterEditor.isEmpty ? [] : headerFooterEditor.getJSON().content ?? [],
+        variant
+      );
+    }
+    onClose();
+  };
+
+  // The listener outlives renders, so it calls the save of the latest props
+  const saveRef = useRef(save);
+  saveRef.current = save;
+
+  useEffect(() => {
+    if (!headerFooterEditor) return;
+
+    const storage = editor.storage.PageExtension as PageExtensionStorage | undefined;
+    if (storage) storage.headerFooterEditor = headerFooterEditor;
+    emitter.emit('headerFooterEditorChange', headerFooterEditor);
+
+    const handlePointerDown = (event: PointerEvent) => {
+      const target = event.target instanceof Element ? event.target : null;
+
+      if (target && (headerFooterEditor.view.dom.contains(target) || target.closest(`[${HEADER_FOOTER_TOOLBAR_ATTRIBUTE}]`))) return;
+      saveRef.current();
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown, true);
+
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown, true);
+      if (storage?.headerFooterEditor === headerFooterEditor) storage.headerFooterEditor = null;
+      emitter.emit('headerFooterEditorChange', null);
+    };
+  }, [editor, headerFooterEditor]);
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') save();
+  };
+
+  return (
+    <EditorContent
+      editor={headerFooterEditor}
+      className={`${kind}-editor`}
+      onKeyDown={handleKeyDown}
+    />
+  );
+};
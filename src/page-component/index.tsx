@@ -1,95 +1,245 @@
-import { useEffect, type CSSProperties } from 'react';
+import { useEffect, useReducer, useState, type CSSProperties, type MouseEvent } from 'react';
 import { NodeViewWrapper, NodeViewContent } from '@tiptap/react';
-import { type NodeViewProps } from '@tiptap/core';
-import { type PageOptions } from '../types';
+import { type Editor, type NodeViewProps } from '@tiptap/core';
+import { type Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { type DocumentMetadata, type HeaderFooterKind, type PageOptions } from '../types';
 import { PAGE } from '../node-names';
+import {
+  getHeaderFooterContent,
+  getHeaderFooterHeights,
+  getHeaderFooterHtml,
+  getHeaderFooterLayout,
+  getHeaderFooterVariant,
+  getLinePitch,
+  getPageDimensions,
+  getPageMargins,
+  lengthToPx,
+  resolveDocumentOptions,
+  resolvePageNodeOptions,
+} from '../core';
+import { getPageOptions } from '../page-plugin';
+import { getFieldValues, getRunningHeading, getSectionPageCount, resolveFieldCodes } from '../field-codes';
+import { getDisplayPageCount, getDisplayPageNumber, getPageNumberLabel } from '../page-number';
 import { emitter } from './events';
+import { HeaderFooterEditor } from './header-footer-editor';
+import { Watermark } from './watermark';
+import { LineNumbers } from './line-numbers';
+import { Letterhead } from './letterhead';
 
 /**
  * PageComponent - Renders a document page with header, content, and footer
  * 
  * Features:
  * - Dynamic page dimensions based on settings
- * - Header and footer with page numbering
+ * - Header and footer with page numbering and document content, per first, odd or even page
+ * - Double-click in the top or bottom margin to edit the header or footer
+ * - Field codes such as {PAGE}, {NUMPAGES} and {HEADING} resolved per page
  * - Responsive margins and spacing
- * - Page number display and positioning
+ * - Page number display and positioning, with number formats and label templates
+ * - Text or image watermark behind the content
+ * - Pleading-paper line numbers in the left margin
+ * - Page border and background
+ * - Letterhead on the first page
  */
-export const PageComponent = ({ editor, node, extension }: NodeViewProps) => {
-  const options = extension.options as PageOptions;
+export const PageComponent = ({ editor, node, extension, getPos }: NodeViewProps) => {
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+  const [editing, setEditing] = useState<HeaderFooterKind | null>(null);
+  const doc = editor.state?.doc;
+  const globalOptions = getPageOptions(editor, extension.options as PageOptions);
+  const documentOptions = resolveDocumentOptions(globalOptions, doc);
+  const options = resolvePageNodeOptions(globalOptions, doc, node.attrs, editor.schema);
   const pageNumber = node.attrs.pageNumber as number;
   const totalPages = editor.$nodes(PAGE)?.toString()?.split(',')?.length ?? 0;
+  const pos = typeof getPos === 'function' ? getPos() : undefined;
+  const pageIndex = doc && typeof pos === 'number' ? doc.resolve(pos).index() : pageNumber - 1;
+  const { height: pageHeight, width: pageWidth } = getPageDimensions(options);
+  const margins = getPageMargins(options, pageNumber);
   
-  // Calculate header height based on page number settings
-  const headerHeight = options.pageNumber?.show && 
-    options.pageNumber?.position === 'top' 
-    ? (options.headerHeight ?? 30)
-    : 0;
+  // Header and footer take space when they have content or show the page number
+  const { header: headerHeight, footer: footerHeight } = getHeaderFooterHeights(options);
+  const { headerTop, bodyTop, bodyBottom, footerBottom } = getHeaderFooterLayout(options);
+  const showHeader = headerHeight > 0 || editing === 'header';
+  const showFooter = footerHeight > 0 || editing === 'footer';
   
-  // Calculate footer height based on page number settings
-  const footerHeight = options.pageNumber?.show && 
-    options.pageNumber?.position === 'bottom' 
-    ? (options.footerHeight ?? 30)
-    : 0;
+  // An empty header or footer is edited inside the margin, so the body keeps its place on the fixed-height page
+  const headerBoxHeight = headerHeight > 0 ? bodyTop - headerTop : Math.min(options.headerHeight ?? 30, bodyTop);
+  const footerBoxHeight = footerHeight > 0 ? bodyBottom - footerBottom : Math.min(options.footerHeight ?? 30, bodyBottom);
 
   // Generate page number label
-  const pageNumberLabel = options.pageNumber?.showCount 
-    ? `${pageNumber} of ${totalPages}` 
-    : pageNumber.toString();
+  const pageNumberLabel = getPageNumberLabel(options.pageNumber, pageNumber, totalPages);
 
-  // Handle page change events
+  // Field codes resolved for this page, the running heading only when the page shows it
+  const runningHeaderLevel = globalOptions.runningHeaderLevel ?? 1;
+  const usesRunningHeading = JSON.stringify([
+    getHeaderFooterContent(documentOptions.headerData, pageNumber),
+    getHeaderFooterContent(documentOptions.footerData, pageNumber),
+    options.letterhead?.items.map((item) => item.content),
+  ]).includes('{HEADING}');
+  const runningHeading = doc && usesRunningHeading ? getRunningHeading(doc, pageIndex, runningHeaderLevel) : null;
+  const fieldValues = getFieldValues({
+    pageNumber: getDisplayPageNumber(options.pageNumber, pageNumber),
+    totalPages: getDisplayPageCount(options.pageNumber, totalPages),
+    sectionPages: doc ? getSectionPageCount(doc, pageIndex) : totalPages,
+    runningHeading,
+    metadata: doc?.attrs.metadata as DocumentMetadata | null | undefined,
+  });
+
+  // Re-render when the page layout, the document attributes or the page count change
   useEffect(() => {
-    const handlePageChange = () => {};
+    emitter.on('pageLayoutChange', forceUpdate);
+    emitter.on('documentAttrsChange', forceUpdate);
+    emitter.on('totalPageChange', forceUpdate);
     
-    emitter.on('totalPageChange', handlePageChange);
+    return () => {
+      emitter.off('pageLayoutChange', forceUpdate);
+      emitter.off('documentAttrsChange', forceUpdate);
+      emitter.off('totalPageChange', forceUpdate);
+    };
+  }, []);
+
+  // Headings on earlier pages change the running heading without changing this page
+  useEffect(() => {
+    if (!usesRunningHeading) return;
     
-    // Emit event if this is the last page
-    if (pageNumber === totalPages) {
-      emitter.emit('totalPageChange', totalPages);
+    const handleDocumentChange = ({ editor: changedEditor, doc: currentDoc }: { editor: Editor; doc: ProseMirrorNode }) => {
+      if (changedEditor !== editor) return;
+      
+      const currentPos = typeof getPos === 'function' ? getPos() : undefined;
+      if (typeof currentPos !== 'number' || currentPos >= currentDoc.content.size) return;
+      
+      if (getRunningHeading(currentDoc, currentDoc.resolve(currentPos).index(), runningHeaderLevel) !== runningHeading) {
+        forceUpdate();
+      }
+    };
+    
+    emitter.on('documentChange', handleDocumentChange);
+    return () => {
+      emitter.off('documentChange', handleDocumentChange);
+    };
+  }, [editor, getPos, usesRunningHeading, runningHeaderLevel, runningHeading]);
+
+  // Edit the header or footer when the margin area around it is double-clicked
+  const handleDoubleClick = (event: MouseEvent<HTMLElement>) => {
+    if (!editor.isEditable || editing) return;
+    
+    const rect = event.currentTarget.getBoundingClientRect();
+    const scale = rect.height / pageHeight || 1;
+    const offsetY = (event.clientY - rect.top) / scale;
+    
+    if (offsetY < bodyTop) {
+      setEditing('header');
+    } else if (offsetY > pageHeight - bodyBottom) {
+      setEditing('footer');
+    }
+  };
+
+  const renderHeaderFooterContent = (kind: HeaderFooterKind) => {
+    const config = kind === 'header' ? documentOptions.headerData : documentOptions.footerData;
+    const content = getHeaderFooterContent(config, pageNumber);
+    
+    if (editing === kind) {
+      return (
+        <HeaderFooterEditor
+          editor={editor}
+          kind={kind}
+          variant={getHeaderFooterVariant(config, pageNumber)}
+          content={content}
+          onClose={() => setEditing(null)}
+        />
+      );
     }
     
-    return () => emitter.off('totalPageChange', handlePageChange);
-  }, [totalPages, pageNumber]);
+    return content.length > 0 && (
+      <div
+        className={`${kind}-content`}
+        dangerouslySetInnerHTML={{ __html: getHeaderFooterHtml(resolveFieldCodes(content, fieldValues), editor.schema) }}
+      />
+    );
+  };
+
+  // Emit event if this is the last page, so every page re-resolves its page count
+  useEffect(() => {
+    if (pageIndex === totalPages - 1) {
+      emitter.emit('totalPageChange', totalPages);
+    }
+  }, [totalPages, pageIndex]);
 
   // Calculate dynamic styles with safe defaults
   const pageStyles: CSSProperties = {
-    height: `${options.bodyHeight}px`,
-    width: `${options.bodyWidth}px`,
-    paddingTop: `${(options.pageLayout?.margins?.top?.value ?? 0.5) * 96}px`,
-    paddingBottom: `${(options.pageLayout?.margins?.bottom?.value ?? 0.5) * 96}px`,
-    paddingLeft: `${(options.pageLayout?.margins?.left?.value ?? 0.5) * 96}px`,
-    paddingRight: `${(options.pageLayout?.margins?.right?.value ?? 0.5) * 96}px`,
+    height: `${pageHeight}px`,
+    width: `${pageWidth}px`,
+    paddingTop: `${showHeader ? bodyTop - headerBoxHeight : bodyTop}px`,
+    paddingBottom: `${showFooter ? bodyBottom - footerBoxHeight : bodyBottom}px`,
+    paddingLeft: `${margins.left}px`,
+    paddingRight: `${margins.right}px`,
   };
 
   const headerStyles: CSSProperties = {
-    height: `${headerHeight}px`,
+    height: `${headerBoxHeight}px`,
     width: '100%',
     textAlign: options.pageNumber?.alignment?.toLowerCase() as CSSProperties['textAlign'],
   };
 
   const footerStyles: CSSProperties = {
-    height: `${footerHeight}px`,
+    height: `${footerBoxHeight}px`,
     width: '100%',
     textAlign: options.pageNumber?.alignment?.toLowerCase() as CSSProperties['textAlign'],
   };
 
+  // A page border sits at a distance from the page edge, or around the body
+  const { pageBorder } = options;
+  const borderWidth = lengthToPx(pageBorder?.width ?? { unit: 'PTS', value: 1 });
+  const borderOffset = (edge: number) => pageBorder?.measureFrom === 'text'
+    ? edge - lengthToPx(pageBorder.offset ?? { unit: 'PTS', value: 4 }) - borderWidth
+    : lengthToPx(pageBorder?.offset ?? { unit: 'PTS', value: 24 });
+  const borderStyles: CSSProperties = {
+    top: `${borderOffset(bodyTop)}px`,
+    bottom: `${borderOffset(bodyBottom)}px`,
+    left: `${borderOffset(margins.left)}px`,
+    right: `${borderOffset(margins.right)}px`,
+    border: `${borderWidth}px ${pageBorder?.style ?? 'solid'} ${pageBorder?.color ?? '#000'}`,
+  };
+
+  // A configured border or background replaces the rounded, shadowed white card
+  const pageClassName = options.pageBorder || options.pageBackground
+    ? 'Page prose prose-base relative mx-auto my-2 transform'
+    : 'Page prose prose-base relative mx-auto my-2 transform rounded-xl border border-grey-150 bg-white shadow-[0px_0px_8px_0px_rgba(32,33,36,0.20)]';
+
   const contentStyles: CSSProperties = {
-    height: `${options.bodyHeight - footerHeight - headerHeight - 
-      ((options.pageLayout?.margins?.top?.value ?? 0.5) + (options.pageLayout?.margins?.bottom?.value ?? 0.5)) * 96}px`,
-    width: `${options.bodyWidth - 
-      ((options.pageLayout?.margins?.left?.value ?? 0.5) + (options.pageLayout?.margins?.right?.value ?? 0.5)) * 96}px`,
+    height: `${pageHeight - bodyTop - bodyBottom}px`,
+    width: `${pageWidth - margins.left - margins.right}px`,
   };
 
   return (
     <NodeViewWrapper
       onContextMenu={() => false}
-      className="Page prose prose-base relative mx-auto my-2 transform rounded-xl border border-grey-150 bg-white shadow-[0px_0px_8px_0px_rgba(32,33,36,0.20)]"
+      className={pageClassName}
       id={node.attrs.id as string}
       style={pageStyles}
+      onDoubleClick={handleDoubleClick}
     >
+      {pageBorder && <div className="page-border" style={borderStyles} contentEditable={false} aria-hidden="true" />}
+
+      {options.watermark && <Watermark watermark={options.watermark} pageWidth={pageWidth} />}
+
+      {options.pageLayout?.lineNumbering && (
+        <LineNumbers
+          lineNumbering={options.pageLayout.lineNumbering}
+          linePitch={getLinePitch(options)}
+          bodyTop={bodyTop}
+          bodyHeight={pageHeight - bodyTop - bodyBottom}
+          marginLeft={margins.left}
+          pageIndex={pageIndex}
+        />
+      )}
+
+      {options.letterhead && <Letterhead letterhead={options.letterhead} schema={editor.schema} fieldValues={fieldValues} />}
+
       {/* Page Header */}
-      {headerHeight > 0 && (
-        <div className="header pointer-events-none relative" style={headerStyles}>
-          {options.pageNumber?.position === 'top' && 
+      {showHeader && (
+        <div className="header relative" style={headerStyles} contentEditable={false}>
+          {renderHeaderFooterContent('header')}
+          {options.pageNumber?.show && options.pageNumber?.position === 'top' && 
             (options.pageNumber?.showOnFirstPage || pageNumber !== 1) && 
             pageNumberLabel}
         </div>
@@ -102,9 +252,10 @@ export const PageComponent = ({ editor, node, extension }: NodeViewProps) => {
       />
 
       {/* Page Footer */}
-      {footerHeight > 0 && (
-        <div className="footer relative" style={footerStyles}>
-          {options.pageNumber?.position === 'bottom' && 
+      {showFooter && (
+        <div className="footer relative" style={footerStyles} contentEditable={false}>
+          {renderHeaderFooterContent('footer')}
+          {options.pageNumber?.show && options.pageNumber?.position === 'bottom' && 
             (options.pageNumber?.showOnFirstPage || pageNumber !== 1) && 
             pageNumberLabel}
         </div>
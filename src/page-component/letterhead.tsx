@@ -0,0 +1,42 @@
+import { type CSSProperties } from 'react';
+import { type Schema } from '@tiptap/pm/model';
+import { type LetterheadConfig } from '../types';
+import { getHeaderFooterHtml, lengthToPx } from '../core';
+import { resolveFieldCodes } from '../field-codes';
+
+
+interface LetterheadProps {
+  letterhead: LetterheadConfig;
+  schema: Schema;
+  fieldValues: Record<string, string>;
+}
+
+/**
+ * Letterhead - Places the logo and address blocks of the first page at fixed positions
+ *
+ * The letterhead is part of the page options rather than the document, so it is not editable,
+ * and the body of the first page starts below it
+ */
+export const Letterhead = ({ letterhead, schema, fieldValues }: LetterheadProps) => (
+  <div className="letterhead" contentEditable={false}>
+    {letterhead.items.map((item, index) => {
+      const itemStyles: CSSProperties = {
+        top: `${lengthToPx(item.top)}px`,
+        left: `${lengthToPx(item.left)}px`,
+        ...(item.width && { width: `${lengthToPx(item.width)}px` }),
+        ...(item.height && { height: `${lengthToPx(item.height)}px` }),
+      };
+
+      return item.image
+        ? <img key={index} className="letterhead-item" src={item.image} alt="" draggable={false} style={itemStyles} />
+        : (
+          <div
+            key={index}
+            className="letterhead-item"
+            style={itemStyles}
+            dangerouslySetInnerHTML={{ __html: getHeaderFooterHtml(resolveFieldCodes(item.content ?? [], fieldValues), schema) }}
+          />
+        );
+    })}
+  </div>
+);
@@ -0,0 +1,53 @@
+import { type CSSProperties } from 'react';
+import { type LineNumberingConfig } from '../types';
+import { lengthToPx } from '../core';
+
+
+interface LineNumbersProps {
+  lineNumbering: LineNumberingConfig;
+  /** Height of one line in pixels */
+  linePitch: number;
+  bodyTop: number;
+  bodyHeight: number;
+  marginLeft: number;
+  pageIndex: number;
+}
+
+/**
+ * LineNumbers - Draws pleading-paper line numbers down the left margin
+ *
+ * Numbers follow the line grid of the configured line spacing, starting at the top of the body,
+ * and are separated from the text by an optional vertical rule that runs the full page height
+ */
+export const LineNumbers = ({ lineNumbering, linePitch, bodyTop, bodyHeight, marginLeft, pageIndex }: LineNumbersProps) => {
+  const { linesPerPage, restartEachPage = true, countBy = 1, distance, rule = true } = lineNumbering;
+
+  if (!lineNumbering.show || !(linePitch > 0)) return null;
+
+  const lines = linesPerPage ?? Math.floor(bodyHeight / linePitch);
+  const firstLine = restartEachPage ? 1 : pageIndex * lines + 1;
+
+  const columnStyles: CSSProperties = {
+    width: `${Math.max(marginLeft - (distance ? lengthToPx(distance) : 24), 0)}px`,
+    paddingTop: `${bodyTop}px`,
+  };
+
+  const lineStyles: CSSProperties = {
+    height: `${linePitch}px`,
+    lineHeight: `${linePitch}px`,
+  };
+
+  return (
+    <div className={`line-numbers${rule ? ' line-numbers-rule' : ''}`} style={columnStyles} contentEditable={false} aria-hidden="true">
+      {Array.from({ length: lines }, (_, index) => {
+        const lineNumber = firstLine + index;
+
+        return (
+          <div key={lineNumber} className="line-number" style={lineStyles}>
+            {lineNumber % countBy === 0 ? lineNumber : ''}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import { type CSSProperties } from 'react';
+import { type WatermarkConfig } from '../types';
+import { lengthToPx } from '../core';
+
+
+/**
+ * Watermark - Draws a text or image watermark behind the page content
+ *
+ * The watermark is not part of the document, so it cannot be selected or edited,
+ * and it is printed with the page
+ */
+export const Watermark = ({ watermark, pageWidth }: { watermark: WatermarkConfig; pageWidth: number }) => {
+  const { text, image, imageWidth, angle = -45, opacity = 0.15, color = '#999', fontFamily, fontSize } = watermark;
+
+  if (!watermark.show || (!text && !image)) return null;
+
+  const markStyles: CSSProperties = {
+    transform: `rotate(${angle}deg)`,
+    opacity,
+    ...(image
+      ? { width: `${imageWidth ? lengthToPx(imageWidth) : pageWidth / 2}px` }
+      : { color, fontFamily, fontSize: `${fontSize ? lengthToPx(fontSize) : 96}px` }),
+  };
+
+  return (
+    <div className="watermark" contentEditable={false} aria-hidden="true">
+      {image
+        ? <img className="watermark-image" src={image} alt="" draggable={false} style={markStyles} />
+        : <span className="watermark-text" style={markStyles}>{text}</span>}
+    </div>
+  );
+};
@@ -1,13 +1,35 @@
-import { Extension } from '@tiptap/core';
-import { UnitConversion, buildComputedHtml } from './core';
-import { type PageOptions, DEFAULT_PAGE_OPTIONS } from './types';
-import { pagePlugin } from './page-plugin';
+import { type Editor, Extension } from '@tiptap/core';
+import { type Schema } from '@tiptap/pm/model';
+import { getMeasurementBackend, lengthToPx } from './core';
+import {
+  type PageOptions,
+  type PageOptionsUpdate,
+  type PageOrientation,
+  type PaperSizeConfig,
+  type TypographyConfig,
+  type WatermarkConfig,
+  type DocumentMetadata,
+  type HeaderFooterConfig,
+  type HeaderFooterKind,
+  type HeaderFooterVariant,
+  type HeaderFooterVariants,
+  type PageExtensionStorage,
+  DEFAULT_PAGE_OPTIONS,
+} from './types';
+import { getPageOptions, pagePlugin } from './page-plugin';
+import { validatePageOptions, validatePageSetup } from './validation';
 import { PageKeyMap } from './page-key-map';
 import { Page } from './page';
-import { injectPageExtensionStyles, removePageExtensionStyles } from './css-injector';
+import {
+  injectPageExtensionStyles,
+  injectPageLayoutStyles,
+  removePageExtensionStyles,
+  removePageLayoutStyles,
+} from './css-injector';
 import {
   BULLETLIST,
   CITATION,
+  PAGE,
   HARDBREAK,
   HEADING,
   LISTITEM,
@@ -19,12 +41,29 @@ import {
 } from './node-names';
 import UniqueID from '@tiptap/extension-unique-id';
 import { isChangeOrigin } from '@tiptap/extension-collaboration';
+import { getId } from './utils/node';
 
 
 declare module '@tiptap/core' {
   interface Commands<ReturnType> {
     PageExtension: {
       recomputeComputedHtml: () => ReturnType;
+      setPageLayout: (options: PageOptionsUpdate) => ReturnType;
+      setTypography: (typography: TypographyConfig) => ReturnType;
+      setWatermark: (watermark: Partial<WatermarkConfig>) => ReturnType;
+      toggleWatermark: (show?: boolean) => ReturnType;
+      setPageSetup: (attributes: {
+        orientation?: PageOrientation | null;
+        size?: PaperSizeConfig | null;
+        section?: string | null;
+      }) => ReturnType;
+      insertSectionBreak: (section?: string | null) => ReturnType;
+      setHeaderFooter: (
+        kind: HeaderFooterKind,
+        content: HeaderFooterConfig | null,
+        variant?: HeaderFooterVariant
+      ) => ReturnType;
+      setDocumentMetadata: (metadata: DocumentMetadata | null) => ReturnType;
     };
   }
 }
@@ -44,21 +83,29 @@ const SUPPORTED_NODE_TYPES = [
 ];
 
 
-function deepMerge(defaults: PageOptions, userOptions: Partial<PageOptions>): PageOptions {
+function deepMerge(defaults: PageOptions, userOptions: PageOptionsUpdate): PageOptions {
   const result = { ...defaults };
   
 
   if (userOptions.pageLayout) {
     result.pageLayout = {
+      ...defaults.pageLayout,
+      ...userOptions.pageLayout,
       margins: {
         top: userOptions.pageLayout.margins?.top ?? defaults.pageLayout?.margins?.top ?? { unit: 'INCHES', value: 0.5 },
         bottom: userOptions.pageLayout.margins?.bottom ?? defaults.pageLayout?.margins?.bottom ?? { unit: 'INCHES', value: 0.5 },
         left: userOptions.pageLayout.margins?.left ?? defaults.pageLayout?.margins?.left ?? { unit: 'INCHES', value: 0.5 },
-        right: userOptions.pageLayout.margins?.right ?? defaults.pageLayout?.margins?.right ?? { unit: 'INCHES', value: 0.5 }
+        right: userOptions.pageLayout.margins?.right ?? defaults.pageLayout?.margins?.right ?? { unit: 'INCHES', value: 0.5 },
+        mirror: userOptions.pageLayout.margins?.mirror ?? defaults.pageLayout?.margins?.mirror ?? false,
+        gutter: userOptions.pageLayout.margins?.gutter ?? defaults.pageLayout?.margins?.gutter
       },
       paragraphSpacing: {
         before: userOptions.pageLayout.paragraphSpacing?.before ?? defaults.pageLayout?.paragraphSpacing?.before ?? { unit: 'PTS', value: 6 },
         after: userOptions.pageLayout.paragraphSpacing?.after ?? defaults.pageLayout?.paragraphSpacing?.after ?? { unit: 'PTS', value: 6 }
+      },
+      spacing: {
+        ...defaults.pageLayout?.spacing,
+        ...userOptions.pageLayout.spacing
       }
     };
   }
@@ -70,72 +117,125 @@ function deepMerge(defaults: PageOptions, userOptions: Partial<PageOptions>): Pa
       showCount: userOptions.pageNumber.showCount ?? defaults.pageNumber?.showCount ?? false,
       showOnFirstPage: userOptions.pageNumber.showOnFirstPage ?? defaults.pageNumber?.showOnFirstPage ?? false,
       position: userOptions.pageNumber.position ?? defaults.pageNumber?.position ?? null,
-      alignment: userOptions.pageNumber.alignment ?? defaults.pageNumber?.alignment ?? null
+      alignment: userOptions.pageNumber.alignment ?? defaults.pageNumber?.alignment ?? null,
+      format: userOptions.pageNumber.format ?? defaults.pageNumber?.format,
+      startAt: userOptions.pageNumber.startAt ?? defaults.pageNumber?.startAt,
+      label: userOptions.pageNumber.label ?? defaults.pageNumber?.label
+    };
+  }
+  
+
+  if (userOptions.typography) {
+    result.typography = {
+      ...defaults.typography,
+      ...userOptions.typography
+    };
+  }
+  
+
+  if (userOptions.headerFooter) {
+    result.headerFooter = {
+      ...defaults.headerFooter,
+      ...userOptions.headerFooter
     };
   }
   
 
-  if (userOptions.bodyHeight !== undefined) result.bodyHeight = userOptions.bodyHeight;
-  if (userOptions.bodyWidth !== undefined) result.bodyWidth = userOptions.bodyWidth;
+  if (userOptions.watermark) {
+    result.watermark = {
+      ...defaults.watermark,
+      ...userOptions.watermark,
+      show: userOptions.watermark.show ?? defaults.watermark?.show ?? true
+    };
+  }
+  
+
+  if (userOptions.pagination) {
+    result.pagination = {
+      ...defaults.pagination,
+      ...userOptions.pagination,
+      scheduled: userOptions.pagination.scheduled ?? defaults.pagination?.scheduled ?? false
+    };
+  }
+  
+
+  if (userOptions.paperSize !== undefined) result.paperSize = userOptions.paperSize;
+  if (userOptions.orientation !== undefined) result.orientation = userOptions.orientation;
+  // Pixel overrides can be cleared at runtime by passing them as undefined
+  if ('bodyHeight' in userOptions) result.bodyHeight = userOptions.bodyHeight;
+  if ('bodyWidth' in userOptions) result.bodyWidth = userOptions.bodyWidth;
   if (userOptions.bodyPadding !== undefined) result.bodyPadding = userOptions.bodyPadding;
   if (userOptions.headerHeight !== undefined) result.headerHeight = userOptions.headerHeight;
   if (userOptions.footerHeight !== undefined) result.footerHeight = userOptions.footerHeight;
+  if (userOptions.sections !== undefined) result.sections = userOptions.sections;
   if (userOptions.types !== undefined) result.types = userOptions.types;
+  // Letterheads, borders and backgrounds can be removed at runtime by passing them as undefined
+  if ('letterhead' in userOptions) result.letterhead = userOptions.letterhead;
+  if ('pageBorder' in userOptions) result.pageBorder = userOptions.pageBorder;
+  if ('pageBackground' in userOptions) result.pageBackground = userOptions.pageBackground;
+  if (userOptions.measurementBackend !== undefined) result.measurementBackend = userOptions.measurementBackend;
+  if (userOptions.runningHeaderLevel !== undefined) result.runningHeaderLevel = userOptions.runningHeaderLevel;
   if (userOptions.headerData !== undefined) result.headerData = userOptions.headerData;
   if (userOptions.footerData !== undefined) result.footerData = userOptions.footerData;
   
   return result;
 }
 
-export const PageExtension = Extension.create<PageOptions>({
-  name: 'PageExtension',
-
-  onBeforeCreate() {
+/**
+ * Throw on the first invalid option, warnings are left to `validatePageOptions`
+ */
+function assertValidPageOptions(options: PageOptions, schema: Schema): void {
+  const { errors } = validatePageOptions(options, schema);
+  
+  if (errors.length) {
+    throw new Error(
+      `PageExtension: ${errors[0].path} ${errors[0].message}. ` +
+      'Please fix the value in PageExtension.configure().'
+    );
+  }
+}
 
-    const { bodyHeight, bodyWidth } = this.options;
-    
-    if (bodyHeight === undefined || bodyHeight === null) {
-      throw new Error(
-        'PageExtension: bodyHeight is required but not provided. ' +
-        'Please provide a numeric value for bodyHeight in PageExtension.configure().'
-      );
-    }
-    
-    if (bodyWidth === undefined || bodyWidth === null) {
-      throw new Error(
-        'PageExtension: bodyWidth is required but not provided. ' +
-        'Please provide a numeric value for bodyWidth in PageExtension.configure().'
-      );
-    }
-    
-    if (typeof bodyHeight !== 'number' || bodyHeight <= 0) {
-      throw new Error(
-        `PageExtension: bodyHeight must be a positive number, but got ${bodyHeight}. ` +
-        'Please provide a valid numeric value greater than 0.'
-      );
-    }
+/**
+ * Apply layout options outside the editor: spacing variables, layout styles and the measurement backend
+ * Pagination is requested again once the backend is ready, e.g. when the iframe stylesheets finish loading
+ */
+function applyPageLayout(editor: Editor, options: PageOptions): void {
+  const { pageLayout } = options;
+  
+  if (pageLayout?.paragraphSpacing) {
+    const topSpacing = lengthToPx(pageLayout.paragraphSpacing.before) * 2;
+    const bottomSpacing = lengthToPx(pageLayout.paragraphSpacing.after) * 2;
     
-    if (typeof bodyWidth !== 'number' || bodyWidth <= 0) {
-      throw new Error(
-        `PageExtension: bodyWidth must be a positive number, but got ${bodyWidth}. ` +
-        'Please provide a valid numeric value greater than 0.'
-      );
+    document.documentElement.style.setProperty('--editor-spacing-top', `${topSpacing}px`);
+    document.documentElement.style.setProperty('--editor-spacing-bottom', `${bottomSpacing}px`);
+  }
+  
+  injectPageLayoutStyles(options);
+  void getMeasurementBackend(options).prepare(options)?.then(() => {
+    if (!editor.isDestroyed) {
+      editor.view.dispatch(editor.state.tr.setMeta('splitPage', true));
     }
-    
+  });
+}
 
-    this.options = deepMerge(DEFAULT_PAGE_OPTIONS as PageOptions, this.options);
-    buildComputedHtml(this.options);
-  },
+export const PageExtension = Extension.create<PageOptions, PageExtensionStorage>({
+  name: 'PageExtension',
 
-  onCreate() {
-    setTimeout(() => {
-      injectPageExtensionStyles();
-    }, 100);
+  onBeforeCreate() {
+
+    // Merge in place, the plugin and commands share this options object with the extension
+    Object.assign(this.options, deepMerge(DEFAULT_PAGE_OPTIONS as PageOptions, this.options));
+    assertValidPageOptions(this.options, this.editor.schema);
+    // Both stylesheets are copied into the default measurement iframe, so they must exist before it is built
+    injectPageExtensionStyles();
+    injectPageLayoutStyles(this.options);
+    void getMeasurementBackend(this.options).prepare(this.options);
   },
 
   onDestroy() {
 
     removePageExtensionStyles();
+    removePageLayoutStyles();
   },
 
   addProseMirrorPlugins() {
@@ -146,6 +246,7 @@ export const PageExtension = Extension.create<PageOptions>({
     return {
       headerData: this.options?.headerData ?? [],
       footerData: this.options?.footerData ?? [],
+      headerFooterEditor: null,
     };
   },
 
@@ -153,24 +254,138 @@ export const PageExtension = Extension.create<PageOptions>({
     return {
       recomputeComputedHtml:
         () =>
-        ({ editor }) => {
-          const unitConversion = new UnitConversion();
-          const { pageLayout } = this.options;
+        ({ editor, tr, dispatch }) => {
+          if (dispatch) {
+            applyPageLayout(editor, getPageOptions(editor, this.options));
+            tr.setMeta('splitPage', true);
+          }
           
-          if (pageLayout?.paragraphSpacing) {
-            const topSpacing = unitConversion.ptConversionPx(pageLayout.paragraphSpacing.before.value) * 2;
-            const bottomSpacing = unitConversion.ptConversionPx(pageLayout.paragraphSpacing.after.value) * 2;
+          return true;
+        },
+      setPageLayout:
+        (options) =>
+        ({ editor, tr, dispatch }) => {
+          const bodyOptions = deepMerge(getPageOptions(editor, this.options), options);
+          
+          if (validatePageOptions(bodyOptions, editor.schema).errors.length) return false;
+          
+          if (dispatch) {
+            applyPageLayout(editor, bodyOptions);
+            tr.setMeta('pageOptions', bodyOptions);
+            tr.setMeta('splitPage', true);
+          }
+          
+          return true;
+        },
+      setTypography:
+        (typography) =>
+        ({ commands }) => commands.setPageLayout({ typography }),
+      setWatermark:
+        (watermark) =>
+        ({ editor, tr, dispatch }) => {
+          const bodyOptions = deepMerge(getPageOptions(editor, this.options), { watermark });
+          
+          if (validatePageOptions(bodyOptions, editor.schema).errors.length) return false;
+          
+          // The watermark is drawn behind the content, so the pages are only re-rendered, not repaginated
+          if (dispatch) {
+            tr.setMeta('pageOptions', bodyOptions);
+          }
+          
+          return true;
+        },
+      toggleWatermark:
+        (show) =>
+        ({ editor, commands }) => {
+          const { watermark } = getPageOptions(editor, this.options);
+          
+          if (!watermark) return false;
+          
+          return commands.setWatermark({ show: show ?? !watermark.show });
+        },
+      setPageSetup:
+        (attributes) =>
+        ({ editor, tr, dispatch }) => {
+          const pageDepth = tr.selection.$head.depth > 0 ? 1 : 0;
+          const page = tr.selection.$head.node(pageDepth);
+          
+          if (!pageDepth || page.type.name !== PAGE) return false;
+          
+          const attrs = { ...page.attrs, ...attributes };
+          if (validatePageSetup(getPageOptions(editor, this.options), attrs, editor.schema).errors.length) return false;
+          
+          if (dispatch) {
+            const pos = tr.selection.$head.before(pageDepth);
+            tr.setNodeMarkup(pos, undefined, attrs);
+            tr.setMeta('splitPage', true);
+          }
+          
+          return true;
+        },
+      insertSectionBreak:
+        (section = null) =>
+        ({ editor, tr, dispatch }) => {
+          const { $head } = tr.selection;
+          
+          if ($head.depth < 2 || $head.node(1).type.name !== PAGE) return false;
+          
+          const page = $head.node(1);
+          if (validatePageSetup(getPageOptions(editor, this.options), { ...page.attrs, section }, editor.schema).errors.length) {
+            return false;
+          }
+          
+          if (dispatch) {
+            // A section starting at the top of a page only changes that page
+            if ($head.index(1) === 0) {
+              tr.setNodeMarkup($head.before(1), undefined, { ...page.attrs, section, sectionBreak: true });
+            } else {
+              tr.split($head.before(2), 1, [{ type: page.type, attrs: { ...page.attrs, id: getId(), section, sectionBreak: true } }]);
+            }
+            tr.setMeta('splitPage', true);
+          }
+          
+          return true;
+        },
+      setHeaderFooter:
+        (kind, content, variant) =>
+        ({ editor, tr, dispatch }) => {
+          const pageOptions = getPageOptions(editor, this.options);
+          const field = kind === 'header' ? 'headerData' : 'footerData';
+          let config = content;
+          
+          // A single variant is merged into the current content, which becomes the default variant
+          if (variant) {
+            const current = (tr.doc.attrs[kind] as HeaderFooterConfig | null) ?? pageOptions[field] ?? [];
+            const variants: HeaderFooterVariants = Array.isArray(current) ? { default: current } : { ...current };
             
-            document.documentElement.style.cssText = 
-              `--editor-spacing-top: ${topSpacing}px; --editor-spacing-bottom: ${bottomSpacing}px;`;
+            if (content === null) {
+              delete variants[variant];
+            } else {
+              variants[variant] = content as HeaderFooterVariants[HeaderFooterVariant];
+            }
+            config = variants;
           }
           
-          buildComputedHtml(this.options);
+          if (config !== null && validatePageOptions({ ...pageOptions, [field]: config }, editor.schema).errors.length) {
+            return false;
+          }
           
-
-          setTimeout(() => {
-            editor?.view.dispatch(editor?.state.tr.setMeta('splitPage', true));
-          }, 1000);
+          if (dispatch) {
+            // Stored on the document so every page renders the same content
+            tr.setDocAttribute(kind, config);
+            tr.setMeta('splitPage', true);
+          }
+          
+          return true;
+        },
+      setDocumentMetadata:
+        (metadata) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            // Merged into the current metadata, null clears it
+            const current = tr.doc.attrs.metadata as DocumentMetadata | null;
+            tr.setDocAttribute('metadata', metadata && { ...current, ...metadata });
+          }
           
           return true;
         },
@@ -0,0 +1,93 @@
+import { type PageNumberConfig, type PageNumberFormatValue, PageNumberFormat } from './types';
+
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'],
+  [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'],
+  [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+];
+
+const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+
+
+const toRoman = (value: number): string => {
+  let rest = value;
+  
+  return ROMAN_NUMERALS.reduce((roman, [amount, numeral]) => {
+    const count = Math.floor(rest / amount);
+    rest -= count * amount;
+    return roman + numeral.repeat(count);
+  }, '');
+};
+
+
+// Letters repeat after z like word processors do: a … z, aa … zz, aaa …
+const toAlpha = (value: number): string =>
+  String.fromCharCode(97 + ((value - 1) % 26)).repeat(Math.ceil(value / 26));
+
+
+/**
+ * Format a page number
+ * Roman and alphabetic formats fall back to arabic digits for numbers below 1
+ * @param value - Page number
+ * @param format - Number format, arabic by default
+ */
+export function formatPageNumber(value: number, format: PageNumberFormatValue = PageNumberFormat.Arabic): string {
+  const isPositive = Number.isInteger(value) && value > 0;
+  
+  switch (format) {
+    case PageNumberFormat.LowerRoman:
+      return isPositive ? toRoman(value).toLowerCase() : String(value);
+    case PageNumberFormat.UpperRoman:
+      return isPositive ? toRoman(value) : String(value);
+    case PageNumberFormat.LowerAlpha:
+      return isPositive ? toAlpha(value) : String(value);
+    case PageNumberFormat.UpperAlpha:
+      return isPositive ? toAlpha(value).toUpperCase() : String(value);
+    case PageNumberFormat.Devanagari:
+      return String(value).replace(/\d/g, (digit) => DEVANAGARI_DIGITS[Number(digit)]);
+    default:
+      return String(value);
+  }
+}
+
+
+/**
+ * Get the number shown for a page, counting from `startAt`
+ * @param config - Page number config of the page
+ * @param pageNumber - Position of the page, 1 for the first page of the document or of a restarted section
+ */
+export function getDisplayPageNumber(config: Partial<PageNumberConfig> | undefined, pageNumber: number): string {
+  return formatPageNumber((config?.startAt ?? 1) + pageNumber - 1, config?.format);
+}
+
+
+/**
+ * Get the page count shown next to page numbers: the number of the last page, counting from `startAt`
+ * and formatted like the page numbers, so that "Page 14 of 14" closes a document numbered from 5
+ * @param config - Page number config of the page
+ * @param totalPages - Number of pages in the document
+ */
+export function getDisplayPageCount(config: Partial<PageNumberConfig> | undefined, totalPages: number): string {
+  return getDisplayPageNumber(config, totalPages);
+}
+
+
+/**
+ * Build the page number label of a page from the label template
+ * Without a template the label is `{n}`, or `{n} of {total}` when `showCount` is set
+ * @param config - Page number config of the page
+ * @param pageNumber - Position of the page
+ * @param totalPages - Number of pages in the document
+ */
+export function getPageNumberLabel(
+  config: Partial<PageNumberConfig> | undefined,
+  pageNumber: number,
+  totalPages: number
+): string {
+  const template = config?.label ?? (config?.showCount ? '{n} of {total}' : '{n}');
+  
+  return template
+    .replace(/\{n\}/g, getDisplayPageNumber(config, pageNumber))
+    .replace(/\{total\}/g, getDisplayPageCount(config, totalPages));
+}
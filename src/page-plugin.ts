@@ -3,28 +3,111 @@ import { type EditorState, Plugin, PluginKey } from '@tiptap/pm/state';
 import { type EditorView } from '@tiptap/pm/view';
 import { type Editor } from '@tiptap/core';
 import { findParentNode } from '@tiptap/core';
-import { type PageOptions, PageState } from './types';
+import { type PageOptions, type PaginationProgress, PageState } from './types';
 import { findParentDomRefOfType, getId } from './utils/node';
 
-import { getBodyHeight, removeAbsentHtmlH } from './core';
+import { getBodyHeight, getMeasurementBackend, resolvePageNodeOptions } from './core';
 import { PageComputedContext, defaultNodesComputed } from './computed';
 import { Fragment, type Node, Slice } from '@tiptap/pm/model';
 import { PAGE } from './node-names';
+import { emitter } from './page-component/events';
 
 let composition = false;
+
+// Callers waiting for scheduled pagination to finish, per editor
+const paginationWaiters = new WeakMap<Editor, (() => void)[]>();
+
+/**
+ * Run a callback when the browser is idle, or on the next task where idle callbacks are not supported
+ * @returns Cancels the callback
+ */
+const scheduleIdle = (callback: () => void): (() => void) => {
+  if (typeof requestIdleCallback === 'function') {
+    const handle = requestIdleCallback(callback);
+    return () => cancelIdleCallback(handle);
+  }
+  
+  const handle = setTimeout(callback, 0);
+  return () => clearTimeout(handle);
+};
+
+const getPaginationProgress = (doc: Node, pendingPage: number | null): PaginationProgress => {
+  if (pendingPage === null || pendingPage >= doc.childCount) {
+    return { pageCount: doc.childCount, progress: 1, done: true };
+  }
+  
+  let laidOut = 0;
+  for (let index = 0; index < pendingPage; index++) {
+    laidOut += doc.child(index).nodeSize;
+  }
+  
+  return { pageCount: doc.childCount, progress: laidOut / doc.content.size, done: false };
+};
+
 class PageDetector {
-  #bodyOption: PageOptions;
   #pageClass: string;
-  constructor(_editor: Editor, bodyOption: PageOptions, pageClass = '.PageContent') {
-    this.#bodyOption = bodyOption;
+  #editor: Editor;
+  #cancelSlice: (() => void) | null = null;
+  constructor(editor: Editor, pageClass = '.PageContent') {
     this.#pageClass = pageClass;
+    this.#editor = editor;
   }
 
+  destroy() {
+    this.#cancelSlice?.();
+    this.#cancelSlice = null;
+    this.resolveWaiters();
+  }
 
-  isOverflown(pageBody: Element) {
-    return pageBody.scrollHeight > getBodyHeight(this.#bodyOption);
+  resolveWaiters() {
+    paginationWaiters.get(this.#editor)?.forEach((resolve) => resolve());
+    paginationWaiters.delete(this.#editor);
+  }
+
+  /**
+   * Report the progress of scheduled pagination and run its next slice when the browser is idle
+   */
+  schedulePagination(view: EditorView, prevState: EditorState) {
+    const { pendingPage, bodyOptions } = paginationPluginKey.getState(view.state) as PageState;
+    
+    if (pendingPage !== (paginationPluginKey.getState(prevState) as PageState).pendingPage) {
+      emitter.emit('paginationProgress', getPaginationProgress(view.state.doc, pendingPage));
+    }
+    
+    if (pendingPage === null) {
+      this.#cancelSlice?.();
+      this.#cancelSlice = null;
+      this.resolveWaiters();
+      return;
+    }
+    
+    if (this.#cancelSlice) return;
+    
+    this.#cancelSlice = scheduleIdle(() => {
+      this.#cancelSlice = null;
+      if (this.#editor.isDestroyed) return;
+      
+      const deadline = performance.now() + (bodyOptions.pagination?.timeSlice ?? 16);
+      view.dispatch(view.state.tr.setMeta('paginationSlice', deadline));
+    });
+  }
+
+
+  isOverflown(pageBody: Element, bodyOption: PageOptions, pageNode?: Node, doc?: Node) {
+    return pageBody.scrollHeight > getBodyHeight(resolvePageNodeOptions(bodyOption, doc, pageNode?.attrs, doc?.type.schema));
   }
   update(view: EditorView, prevState: EditorState) {
+    const { bodyOptions } = paginationPluginKey.getState(view.state) as PageState;
+    if (bodyOptions !== (paginationPluginKey.getState(prevState) as PageState).bodyOptions) {
+      emitter.emit('pageLayoutChange', bodyOptions);
+    }
+    if (view.state.doc.attrs !== prevState.doc.attrs) {
+      emitter.emit('documentAttrsChange', view.state.doc.attrs);
+    }
+    if (view.state.doc !== prevState.doc) {
+      emitter.emit('documentChange', { editor: this.#editor, doc: view.state.doc });
+    }
+    this.schedulePagination(view, prevState);
     if (composition) return;
     const { selection, schema, tr } = view.state;
     if (view.state.doc.eq(prevState.doc)) return;
@@ -38,9 +121,9 @@ class PageDetector {
     if (!pageDOM) return;
     const pageBody = (pageDOM as HTMLElement).querySelector(this.#pageClass);
     if (pageBody) {
-      const inserting = this.isOverflown(pageBody);
+      const curPage = findParentNode((n) => n.type.name == PAGE)(selection);
+      const inserting = this.isOverflown(pageBody, bodyOptions, curPage?.node, view.state.doc);
       if (inserting) {
-        const curPage = findParentNode((n) => n.type.name == PAGE)(selection);
         if (curPage) {
           const { childCount, firstChild } = curPage.node;
           if (childCount == 1 && firstChild?.type.name == 'table' && firstChild.childCount == 1) {
@@ -61,12 +144,38 @@ class PageDetector {
     }
   }
 }
-export const paginationPluginKey = new PluginKey('pagination');
+export const paginationPluginKey = new PluginKey<PageState>('pagination');
+
+/**
+ * Get the live page options of an editor
+ * @param editor - Editor instance
+ * @param fallback - Options to use before the plugin state exists
+ */
+export const getPageOptions = (editor: Editor, fallback: PageOptions): PageOptions => {
+  const pageState = editor.state ? paginationPluginKey.getState(editor.state) : undefined;
+  return pageState?.bodyOptions ?? fallback;
+};
+
+/**
+ * Wait until scheduled pagination has laid out the whole document
+ * Resolves right away when pagination is synchronous or already complete
+ * @param editor - Editor instance
+ */
+export const whenPaginated = (editor: Editor): Promise<void> => {
+  const pageState = editor.state ? paginationPluginKey.getState(editor.state) : undefined;
+  
+  if (!pageState || pageState.pendingPage === null || editor.isDestroyed) return Promise.resolve();
+  
+  return new Promise((resolve) => {
+    paginationWaiters.set(editor, [...(paginationWaiters.get(editor) ?? []), resolve]);
+  });
+};
+
 export const pagePlugin = (editor: Editor, bodyOption: PageOptions) => {
   const plugin: Plugin = new Plugin<PageState>({
     key: paginationPluginKey,
     view: () => {
-      return new PageDetector(editor, bodyOption);
+      return new PageDetector(editor);
     },
     state: {
       init: (): PageState => {
@@ -85,9 +194,10 @@ export const pagePlugin = (editor: Editor, bodyOption: PageOptions) => {
      * @param state
      */
     appendTransaction(_, prevState, state) {
-      removeAbsentHtmlH();
+      const pageState = this.getState(state) as PageState;
+      getMeasurementBackend(pageState.bodyOptions).clear();
        
-      const page = new PageComputedContext(editor, defaultNodesComputed, this.getState(state), state, prevState);
+      const page = new PageComputedContext(editor, defaultNodesComputed, pageState, state, prevState);
       const tr = page.run();
       return tr;
     },
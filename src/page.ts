@@ -3,7 +3,9 @@
 import { ReactNodeViewRenderer } from '@tiptap/react';
 import { Node, mergeAttributes } from '@tiptap/core';
 import { getId } from './utils/node';
+import { getLineHeight } from './core';
 import { type PageOptions } from './types';
+import { isValidLineSpacing } from './validation';
 import { PageComponent } from './page-component';
 import { 
   HEADING,
@@ -30,6 +32,23 @@ const PAGE_CONTENT_TYPES = [
 ];
 
 
+/**
+ * Attribute overriding a widow or orphan minimum of the page layout, also rendered as the CSS property for printing
+ */
+const lineCountAttribute = (name: 'widows' | 'orphans') => ({
+  default: null,
+  parseHTML: (element: HTMLElement) => {
+    const lines = Number(element.getAttribute(`data-${name}`));
+    return Number.isInteger(lines) && lines > 0 ? lines : null;
+  },
+  renderHTML: (attributes: Record<string, unknown>) => {
+    const lines = attributes[name];
+    if (!(Number.isInteger(lines) && (lines as number) > 0)) return {};
+    return { [`data-${name}`]: String(lines), style: `${name}: ${lines}` };
+  },
+});
+
+
 export const Page = Node.create<PageOptions>({
   priority: 2,
   name: PAGE,
@@ -43,8 +62,6 @@ export const Page = Node.create<PageOptions>({
       types: [],
       footerHeight: 100,
       headerHeight: 100,
-      bodyHeight: 0,
-      bodyWidth: 0,
       bodyPadding: 0,
       isPaging: false,
       mode: 1,
@@ -75,6 +92,48 @@ export const Page = Node.create<PageOptions>({
     return {
       HTMLAttributes: {},
       pageNumber: { default: 1 },
+      orientation: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-orientation'),
+        renderHTML: (attributes) => {
+          if (!attributes.orientation) return {};
+          return { 'data-orientation': attributes.orientation as string };
+        },
+      },
+      section: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-section'),
+        renderHTML: (attributes) => {
+          if (!attributes.section) return {};
+          return { 'data-section': attributes.section as string };
+        },
+      },
+      sectionBreak: {
+        default: false,
+        parseHTML: (element) => element.hasAttribute('data-section-break'),
+        renderHTML: (attributes) => {
+          if (!attributes.sectionBreak) return {};
+          return { 'data-section-break': '' };
+        },
+      },
+      size: {
+        default: null,
+        parseHTML: (element) => {
+          const size = element.getAttribute('data-size');
+          if (!size?.startsWith('{')) return size;
+          
+          try {
+            return JSON.parse(size) as unknown;
+          } catch {
+            return null;
+          }
+        },
+        renderHTML: (attributes) => {
+          if (!attributes.size) return {};
+          const { size } = attributes;
+          return { 'data-size': typeof size === 'string' ? size : JSON.stringify(size) };
+        },
+      },
       id: {
         parseHTML: (element) => element.getAttribute('id'),
         renderHTML: (attributes) => {
@@ -96,6 +155,52 @@ export const Page = Node.create<PageOptions>({
           extend: {
             default: false,
           },
+          keepWithNext: {
+            default: null,
+            parseHTML: (element) => {
+              const keepWithNext = element.getAttribute('data-keep-with-next');
+              return keepWithNext === null ? null : keepWithNext !== 'false';
+            },
+            renderHTML: (attributes) => {
+              if (attributes.keepWithNext === null || attributes.keepWithNext === undefined) return {};
+              return { 'data-keep-with-next': String(attributes.keepWithNext) };
+            },
+          },
+        },
+      },
+      {
+        types: [PARAGRAPH, HEADING],
+        attributes: {
+          lineSpacing: {
+            default: null,
+            parseHTML: (element) => {
+              const lineSpacing = element.getAttribute('data-line-spacing');
+              if (!lineSpacing) return null;
+              
+              try {
+                const parsed = JSON.parse(lineSpacing) as unknown;
+                return isValidLineSpacing(parsed) ? parsed : null;
+              } catch {
+                return null;
+              }
+            },
+            renderHTML: (attributes) => {
+              if (!isValidLineSpacing(attributes.lineSpacing)) return {};
+              const lineHeight = getLineHeight(attributes.lineSpacing);
+              if (!lineHeight) return {};
+              return {
+                'data-line-spacing': JSON.stringify(attributes.lineSpacing),
+                style: `line-height: ${lineHeight}`,
+              };
+            },
+          },
+        },
+      },
+      {
+        types: [PARAGRAPH],
+        attributes: {
+          widows: lineCountAttribute('widows'),
+          orphans: lineCountAttribute('orphans'),
         },
       },
     ];
@@ -1,47 +1,155 @@
 import { type Attrs, type NodeType, type Schema, type Node } from '@tiptap/pm/model';
 import { type Transaction } from '@tiptap/pm/state';
+import { type Editor, type JSONContent } from '@tiptap/core';
 import { type SplitContext } from './computed';
 
 
-export const ParagraphSpacingUnit = {
-  Pts: 'PTS'
+export const LengthUnit = {
+  Px: 'PX',
+  Pts: 'PTS',
+  Mm: 'MM',
+  Cm: 'CM',
+  Inches: 'INCHES'
 } as const;
 
 
-export const MarginUnit = {
-  Cm: 'CM',
-  Inches: 'INCHES'
+export const ParagraphSpacingUnit = LengthUnit;
+
+
+export const MarginUnit = LengthUnit;
+
+
+export const LineSpacingRule = {
+  Single: 'SINGLE',
+  OneAndHalf: 'ONE_AND_HALF',
+  Double: 'DOUBLE',
+  Multiple: 'MULTIPLE',
+  Exactly: 'EXACTLY',
+  AtLeast: 'AT_LEAST'
 } as const;
 
 
+export const PageNumberFormat = {
+  Arabic: 'ARABIC',
+  LowerRoman: 'LOWER_ROMAN',
+  UpperRoman: 'UPPER_ROMAN',
+  LowerAlpha: 'LOWER_ALPHA',
+  UpperAlpha: 'UPPER_ALPHA',
+  Devanagari: 'DEVANAGARI'
+} as const;
+
+
+export type PageNumberFormatValue = typeof PageNumberFormat[keyof typeof PageNumberFormat];
+
+
+export const PaperSize = {
+  A3: 'A3',
+  A4: 'A4',
+  A5: 'A5',
+  Letter: 'LETTER',
+  Legal: 'LEGAL'
+} as const;
+
+
+/**
+ * Portrait dimensions of the named paper sizes, in millimetres
+ */
+export const PAPER_SIZE_DIMENSIONS: Record<typeof PaperSize[keyof typeof PaperSize], { width: number; height: number }> = {
+  [PaperSize.A3]: { width: 297, height: 420 },
+  [PaperSize.A4]: { width: 210, height: 297 },
+  [PaperSize.A5]: { width: 148, height: 210 },
+  [PaperSize.Letter]: { width: 215.9, height: 279.4 },
+  [PaperSize.Legal]: { width: 215.9, height: 355.6 }
+};
+
+
+export type LengthUnitValue = typeof LengthUnit[keyof typeof LengthUnit];
+
+
+export interface LengthConfig {
+  unit: LengthUnitValue;
+  value: number;
+}
+
+
+/**
+ * Height calculation of one node type, returns whether pagination should descend into the node's children
+ * `dom` is the element the measurement backend measures the node from, null for backends that measure nodes directly
+ */
 export type ComputedFn = (
   splitContext: SplitContext, 
   node: Node, 
   pos: number, 
   parent: Node | null, 
-  dom: HTMLElement
+  dom: HTMLElement | null
 ) => boolean;
 
 
 export type NodesComputed = Record<string, ComputedFn>;
 
+
+/**
+ * Source of every height used by pagination
+ * The default backend renders nodes into a hidden iframe, others can trade accuracy for speed
+ */
+export interface MeasurementBackend {
+  /** Set up measurement for the page options, resolves once measurements are reliable (e.g. stylesheets loaded) */
+  prepare(options: PageOptions): Promise<void> | null;
+  /** Adapt measurement to the options of the page about to be measured */
+  resize(options: PageOptions): void;
+  /** Drop state left over from measuring the previous transaction */
+  clear(): void;
+  /** Element a node is measured from, handed to the node computed functions */
+  getElement(node: Node, schema: Schema): HTMLElement | null;
+  /** Height of a block including padding, border and margins */
+  getHeight(node: Node, dom: HTMLElement | null): number;
+  /** Padding, border and margins of a block */
+  getSpacing(node: Node, dom: HTMLElement | null): number;
+  /** Height of a block around its `.content` element */
+  getContentSpacing(node: Node, dom: HTMLElement | null): number;
+  /** Height of an empty paragraph */
+  getDefaultHeight(): number;
+  /** Height of one line of a text block, 0 when unknown */
+  getLineHeight(node: Node, dom: HTMLElement | null): number;
+  /** Position in a text block, relative to the block, after the last line that fits the page, or null to move the whole block */
+  getBreakPos(node: Node, dom: HTMLElement | null, splitContext: SplitContext): number | null;
+  /** Height of header or footer content */
+  getHeaderFooterHeight(kind: HeaderFooterKind, content: HeaderFooterContent, schema: Schema, width: number): number;
+}
+
 export type PageNumberPosition = 'top' | 'bottom';
 
 
-export type PageNumberAlignment = 'left' | 'center' | 'right';
+export type PageOrientation = 'portrait' | 'landscape';
 
 
-export interface MarginConfig {
-  unit: typeof MarginUnit[keyof typeof MarginUnit];
-  value: number;
+export interface CustomPaperSize {
+  width: number;
+  height: number;
+  unit: LengthUnitValue;
 }
 
 
+export type PaperSizeConfig = typeof PaperSize[keyof typeof PaperSize] | CustomPaperSize;
+
+
+export type PageNumberAlignment = 'left' | 'center' | 'right';
+
+
+export type MarginConfig = LengthConfig;
+
+
 export interface PageMargins {
   top: MarginConfig;
   bottom: MarginConfig;
+  /** Inside margin when `mirror` is set */
   left: MarginConfig;
+  /** Outside margin when `mirror` is set */
   right: MarginConfig;
+  /** Swap left and right margins on even pages so they act as inside and outside margins */
+  mirror?: boolean;
+  /** Extra binding space added to the inside (or left) margin */
+  gutter?: MarginConfig;
 }
 
 
@@ -51,33 +159,227 @@ export interface PageNumberConfig {
   showOnFirstPage: boolean;
   position: PageNumberPosition | null;
   alignment: PageNumberAlignment | null;
+  format?: PageNumberFormatValue;
+  /** Number shown on the first page, or on the first page of a section that restarts numbering */
+  startAt?: number;
+  /** Label template with `{n}` for the page number and `{total}` for the page count, e.g. `"Page {n} of {total}"` */
+  label?: string;
 }
 
 
 export interface ParagraphSpacingConfig {
-  before: {
-    unit: typeof ParagraphSpacingUnit[keyof typeof ParagraphSpacingUnit];
-    value: number;
-  };
-  after: {
-    unit: typeof ParagraphSpacingUnit[keyof typeof ParagraphSpacingUnit];
-    value: number;
-  };
+  before: LengthConfig;
+  after: LengthConfig;
+}
+
+
+export interface LineSpacingConfig {
+  rule: typeof LineSpacingRule[keyof typeof LineSpacingRule];
+  /** Multiple of single spacing, used by `MULTIPLE` */
+  multiple?: number;
+  /** Line height, used by `EXACTLY` and `AT_LEAST` */
+  height?: LengthConfig;
+}
+
+
+/** Rich-text blocks of a header or footer in ProseMirror JSON, e.g. `[{ type: 'paragraph', content: [...] }]` */
+export type HeaderFooterContent = JSONContent[];
+
+
+export type HeaderFooterKind = 'header' | 'footer';
+
+
+export interface HeaderFooterLayoutConfig {
+  /** Measure header and footer content instead of using `headerHeight` and `footerHeight` */
+  autoSize?: boolean;
+  /** Largest measured header or footer height, taller content is clipped */
+  maxHeight?: LengthConfig;
+  /** Distance from the top edge of the page to the header, the body starts below the header or the top margin, whichever is lower */
+  headerDistance?: LengthConfig;
+  /** Distance from the bottom edge of the page to the footer */
+  footerDistance?: LengthConfig;
+}
+
+
+/** Document metadata available as field codes, e.g. `{ TITLE: 'Writ Petition', CASE_NUMBER: '123/2024' }` */
+export type DocumentMetadata = Record<string, string>;
+
+
+export type HeaderFooterVariant = 'default' | 'first' | 'odd' | 'even';
+
+
+/** Header or footer content per page type, pages without a matching variant use `default` */
+export type HeaderFooterVariants = Partial<Record<HeaderFooterVariant, HeaderFooterContent>>;
+
+
+/** The same content on every page, or different content per page type */
+export type HeaderFooterConfig = HeaderFooterContent | HeaderFooterVariants;
+
+
+export interface TypographyConfig {
+  /** CSS font family list, e.g. `"'Times New Roman', serif"` */
+  fontFamily?: string;
+  fontSize?: LengthConfig;
+  /** CSS text colour */
+  color?: string;
+}
+
+
+export interface WatermarkConfig {
+  show: boolean;
+  /** Text such as `DRAFT`, used when no image is set */
+  text?: string;
+  /** Image URL, such as a seal on certified copies */
+  image?: string;
+  /** Width of the image, defaults to half the page width */
+  imageWidth?: LengthConfig;
+  /** Rotation in degrees, negative values rotate counter-clockwise */
+  angle?: number;
+  /** Opacity from 0 to 1 */
+  opacity?: number;
+  /** CSS text colour */
+  color?: string;
+  /** CSS font family list */
+  fontFamily?: string;
+  fontSize?: LengthConfig;
+}
+
+
+export interface LetterheadItem {
+  /** Rich-text blocks in ProseMirror JSON, e.g. an address block, field codes are resolved */
+  content?: HeaderFooterContent;
+  /** Image URL, e.g. a logo */
+  image?: string;
+  /** Offset from the top edge of the page */
+  top: LengthConfig;
+  /** Offset from the left edge of the page */
+  left: LengthConfig;
+  width?: LengthConfig;
+  height?: LengthConfig;
+}
+
+
+export interface LetterheadConfig {
+  items: LetterheadItem[];
+  /** Space the letterhead takes from the top edge of the first page, the body starts below it */
+  height: LengthConfig;
+}
+
+
+export type PageBorderStyle = 'solid' | 'dashed' | 'dotted' | 'double';
+
+
+export interface PageBorderConfig {
+  /** Defaults to `'solid'` */
+  style?: PageBorderStyle;
+  /** Defaults to 1pt */
+  width?: LengthConfig;
+  /** CSS colour, defaults to black */
+  color?: string;
+  /** Measure `offset` from the page edge or from the text, defaults to `'edge'` */
+  measureFrom?: 'edge' | 'text';
+  /** Distance from the page edge or the text, defaults to 24pt from the edge or 4pt from the text */
+  offset?: LengthConfig;
+}
+
+
+export interface PageBackgroundConfig {
+  /** CSS colour */
+  color?: string;
+  /** Image URL, such as a stamp-paper scan */
+  image?: string;
+  /** CSS background size of the image, defaults to `'cover'` */
+  size?: string;
+}
+
+
+export type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+
+export interface NodeSpacingConfig {
+  /** Spacing of paragraphs, defaults to `paragraphSpacing` */
+  paragraph?: ParagraphSpacingConfig;
+  /** Spacing of every heading level */
+  heading?: ParagraphSpacingConfig;
+  /** Spacing of individual heading levels, overriding `heading` */
+  headingLevels?: Partial<Record<HeadingLevel, ParagraphSpacingConfig>>;
+  /** Spacing of list items, paragraphs inside list items get no extra spacing */
+  listItem?: ParagraphSpacingConfig;
+}
+
+
+export interface LineNumberingConfig {
+  show: boolean;
+  /** Lines numbered on each page, e.g. 28 for pleading paper, defaults to as many lines as fit in the body */
+  linesPerPage?: number;
+  /** Start at 1 on every page instead of continuing from the previous page, defaults to true */
+  restartEachPage?: boolean;
+  /** Only show every Nth number, defaults to 1 */
+  countBy?: number;
+  /** Distance between the numbers and the text, defaults to 0.25 inch */
+  distance?: LengthConfig;
+  /** Draw a vertical rule between the numbers and the text, defaults to true */
+  rule?: boolean;
 }
 
 
 export interface PageLayoutConfig {
   margins?: PageMargins;
   paragraphSpacing?: ParagraphSpacingConfig;
+  spacing?: NodeSpacingConfig;
+  /** Line spacing of the page content, overridable per paragraph through the `lineSpacing` attribute */
+  lineSpacing?: LineSpacingConfig;
+  /** Line numbers in the left margin, aligned to the line spacing */
+  lineNumbering?: LineNumberingConfig;
+  /** Fewest lines of a split paragraph carried to the top of the next page, overridable per paragraph, defaults to 1 */
+  widows?: number;
+  /** Fewest lines of a split paragraph left at the bottom of a page, overridable per paragraph, defaults to 1 */
+  orphans?: number;
+}
+
+
+export interface PaginationConfig {
+  /** Split pages in idle-time slices after loading or a layout change instead of in one pass, defaults to false */
+  scheduled: boolean;
+  /** Milliseconds each slice may spend splitting pages before yielding to the browser, 0 splits one page per slice, defaults to 16 */
+  timeSlice?: number;
+}
+
+
+/** Payload of the `paginationProgress` event */
+export interface PaginationProgress {
+  /** Pages in the document so far */
+  pageCount: number;
+  /** Share of the document content that is laid out, from 0 to 1 */
+  progress: number;
+  done: boolean;
+}
+
+
+export interface PageSectionConfig {
+  paperSize?: PaperSizeConfig;
+  orientation?: PageOrientation;
+  pageLayout?: PageLayoutConfig;
+  pageNumber?: Partial<PageNumberConfig>;
+  /** Restart page numbering at 1 on the first page of the section */
+  restartNumbering?: boolean;
 }
 
 
 export interface PageOptions {
 
-  bodyHeight: number;
+  /** Page height in pixels; overrides the height resolved from `paperSize` */
+  bodyHeight?: number;
+  
+
+  /** Page width in pixels; overrides the width resolved from `paperSize` */
+  bodyWidth?: number;
+  
+
+  paperSize?: PaperSizeConfig;
   
 
-  bodyWidth: number;
+  orientation?: PageOrientation;
   
 
   bodyPadding?: number;
@@ -89,29 +391,106 @@ export interface PageOptions {
   footerHeight?: number;
   
 
+  headerFooter?: HeaderFooterLayoutConfig;
+  
+
   pageLayout?: PageLayoutConfig;
   
 
   pageNumber?: PageNumberConfig;
   
 
+  /** Default font of the page content, also used for measurement */
+  typography?: TypographyConfig;
+  
+
+  /** Measures content for pagination, defaults to the hidden iframe of the editor's document */
+  measurementBackend?: MeasurementBackend;
+  
+
+  /** Scheduling of full pagination passes, which run synchronously by default */
+  pagination?: PaginationConfig;
+  
+
+  /** Deepest heading level resolved by the `{HEADING}` field, e.g. 2 for the current chapter or section, defaults to 1 */
+  runningHeaderLevel?: HeadingLevel;
+  
+
+  /** Positioned, non-editable content on the first page of the document only */
+  letterhead?: LetterheadConfig;
+  
+
+  /** Border drawn around every page, replaces the rounded, shadowed page look */
+  pageBorder?: PageBorderConfig;
+  
+
+  /** Page colour or image, replaces the white, rounded, shadowed page look */
+  pageBackground?: PageBackgroundConfig;
+  
+
+  /** Text or image drawn behind the content of every page */
+  watermark?: WatermarkConfig;
+  
+
+  /** Named page setups, applied to pages through their `section` attribute */
+  sections?: Record<string, PageSectionConfig>;
+  
+
   types?: never[];
   
 
-  headerData?: unknown[];
+  /** Initial header content, replaced by the content stored in the document once it is edited */
+  headerData?: HeaderFooterConfig;
   
 
-  footerData?: unknown[];
+  /** Initial footer content, replaced by the content stored in the document once it is edited */
+  footerData?: HeaderFooterConfig;
+}
+
+
+export interface PageOptionsIssue {
+  /** Dotted path of the offending option, e.g. `pageLayout.margins.top.value` */
+  path: string;
+  message: string;
+}
+
+
+export interface PageOptionsValidationResult {
+  valid: boolean;
+  errors: PageOptionsIssue[];
+  warnings: PageOptionsIssue[];
 }
 
 
+/**
+ * Partial page options accepted by runtime reconfiguration, nested settings are merged field by field
+ */
+export type PageOptionsUpdate = Omit<Partial<PageOptions>, 'pageLayout' | 'pageNumber' | 'typography' | 'headerFooter' | 'watermark' | 'pagination'> & {
+  pageLayout?: Omit<PageLayoutConfig, 'margins' | 'paragraphSpacing'> & {
+    margins?: Partial<PageMargins>;
+    paragraphSpacing?: Partial<ParagraphSpacingConfig>;
+  };
+  pageNumber?: Partial<PageNumberConfig>;
+  typography?: TypographyConfig;
+  headerFooter?: HeaderFooterLayoutConfig;
+  watermark?: Partial<WatermarkConfig>;
+  pagination?: Partial<PaginationConfig>;
+};
+
+
 export const DEFAULT_PAGE_OPTIONS: Partial<PageOptions> = {
   bodyPadding: 0,
   headerHeight: 30,
   footerHeight: 30,
+  orientation: 'portrait',
   types: [],
   headerData: [],
   footerData: [],
+  typography: {
+    fontFamily: "'Times New Roman', serif",
+    fontSize: { unit: LengthUnit.Pts, value: 12 },
+    color: '#333'
+  },
   pageLayout: {
     margins: {
       top: { unit: MarginUnit.Inches, value: 0.5 },
@@ -122,7 +501,18 @@ export const DEFAULT_PAGE_OPTIONS: Partial<PageOptions> = {
     paragraphSpacing: {
       before: { unit: ParagraphSpacingUnit.Pts, value: 6 },
       after: { unit: ParagraphSpacingUnit.Pts, value: 6 }
-    }
+    },
+    spacing: {
+      heading: {
+        before: { unit: ParagraphSpacingUnit.Pts, value: 12 },
+        after: { unit: ParagraphSpacingUnit.Pts, value: 12 }
+      },
+      listItem: {
+        before: { unit: ParagraphSpacingUnit.Pts, value: 0 },
+        after: { unit: ParagraphSpacingUnit.Pts, value: 0 }
+      }
+    },
+    lineSpacing: { rule: LineSpacingRule.Multiple, multiple: 1.4 }
   },
   pageNumber: {
     show: false,
@@ -143,22 +533,42 @@ export type SplitParams = {
 };
 
 
+export interface PageExtensionStorage {
+  headerData: HeaderFooterConfig;
+  footerData: HeaderFooterConfig;
+  /** Editor of the header or footer being edited in place, for toolbars to apply marks and insert content */
+  headerFooterEditor: Editor | null;
+}
+
+
 export class PageState {
   public bodyOptions: PageOptions;
   public deleting: boolean;
   public inserting: boolean;
   public splitPage: boolean;
+  /** Index of the first page that scheduled pagination has not laid out yet, null when layout is complete */
+  public pendingPage: number | null;
+  /** Document position of the start of the pending page, mapped through every transaction so page joins and splits move it */
+  public pendingPos: number | null;
+  /** Time until which a scheduled pagination slice may run, set only on the transactions that run a slice */
+  public sliceDeadline: number | null;
 
   constructor(
     bodyOptions: PageOptions,
     deleting: boolean,
     inserting: boolean,
-    splitPage: boolean
+    splitPage: boolean,
+    pendingPage: number | null = null,
+    pendingPos: number | null = null,
+    sliceDeadline: number | null = null
   ) {
     this.bodyOptions = bodyOptions;
     this.deleting = deleting;
     this.inserting = inserting;
     this.splitPage = splitPage;
+    this.pendingPage = pendingPage;
+    this.pendingPos = pendingPos;
+    this.sliceDeadline = sliceDeadline;
   }
 
 
@@ -166,17 +576,46 @@ export class PageState {
     const splitPage = tr.getMeta('splitPage') as boolean ?? false;
     const inserting = tr.getMeta('inserting') as boolean ?? false;
     const deleting = tr.getMeta('deleting') as boolean ?? false;
+    const bodyOptions = tr.getMeta('pageOptions') as PageOptions | undefined ?? this.bodyOptions;
+    const pendingMeta = tr.getMeta('paginationPending') as number | null | undefined;
+    const sliceDeadline = tr.getMeta('paginationSlice') as number | undefined ?? null;
+    
+    let pendingPos: number | null;
+    if (pendingMeta === undefined) {
+      pendingPos = this.pendingPos === null ? null : tr.mapping.map(this.pendingPos);
+    } else {
+      pendingPos = pendingMeta === null ? null : getPageStart(tr.doc, pendingMeta);
+    }
+    
+    // A position inside a page, e.g. after the pending page was joined onto an earlier one, makes that page pending
+    const pendingIndex = pendingPos === null ? null : tr.doc.resolve(pendingPos).index(0);
+    const pendingPage = pendingIndex !== null && pendingIndex < tr.doc.childCount ? pendingIndex : null;
     
     return new PageState(
-      this.bodyOptions, 
+      bodyOptions, 
       deleting, 
       inserting, 
-      splitPage
+      splitPage,
+      pendingPage,
+      pendingPage === null ? null : pendingPos,
+      sliceDeadline
     );
   }
 }
 
 
+/**
+ * Get the document position before a page
+ */
+function getPageStart(doc: Node, pageIndex: number): number {
+  let pos = 0;
+  for (let index = 0; index < Math.min(pageIndex, doc.childCount); index++) {
+    pos += doc.child(index).nodeSize;
+  }
+  return pos;
+}
+
+
 export type SplitInfo = {
   pos: number;
   depth: number;
@@ -0,0 +1,433 @@
+import { type Attrs, type Schema } from '@tiptap/pm/model';
+import { getBodyHeight, getBodyWidth, resolvePageOptions } from './core';
+import {
+  type HeaderFooterConfig,
+  type HeaderFooterContent,
+  type LengthConfig,
+  type LetterheadConfig,
+  type LineNumberingConfig,
+  type LineSpacingConfig,
+  type PageLayoutConfig,
+  type PageOptions,
+  type PageOptionsIssue,
+  type PageNumberConfig,
+  type PageOptionsValidationResult,
+  type PageBorderConfig,
+  type PaperSizeConfig,
+  type WatermarkConfig,
+  LengthUnit,
+  LineSpacingRule,
+  PageNumberFormat,
+  PAPER_SIZE_DIMENSIONS,
+} from './types';
+
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+
+function validateLength(
+  length: LengthConfig | undefined,
+  path: string,
+  errors: PageOptionsIssue[],
+  { allowZero = true }: { allowZero?: boolean } = {}
+): void {
+  if (length === undefined) return;
+
+  if (!length || !Object.values(LengthUnit).includes(length.unit)) {
+    errors.push({ path: `${path}.unit`, message: `unknown unit ${length?.unit}, expected one of ${Object.values(LengthUnit).join(', ')}` });
+  }
+
+  const value = length?.value;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+    errors.push({ path: `${path}.value`, message: `must be ${allowZero ? 'a non-negative' : 'a positive'} number, but got ${value}` });
+  }
+}
+
+
+function validatePaperSize(paperSize: PaperSizeConfig | undefined, path: string, errors: PageOptionsIssue[]): void {
+  if (paperSize === undefined) return;
+
+  if (typeof paperSize === 'string') {
+    if (!(paperSize in PAPER_SIZE_DIMENSIONS)) {
+      errors.push({ path, message: `unknown paper size ${paperSize}, expected one of ${Object.keys(PAPER_SIZE_DIMENSIONS).join(', ')} or a custom size` });
+    }
+    return;
+  }
+
+  const { width, height, unit } = paperSize ?? {};
+  if (!isPositiveNumber(width)) errors.push({ path: `${path}.width`, message: `must be a positive number, but got ${width}` });
+  if (!isPositiveNumber(height)) errors.push({ path: `${path}.height`, message: `must be a positive number, but got ${height}` });
+  if (!Object.values(LengthUnit).includes(unit)) {
+    errors.push({ path: `${path}.unit`, message: `unknown unit ${unit}, expected one of ${Object.values(LengthUnit).join(', ')}` });
+  }
+}
+
+
+function validateOrientation(orientation: unknown, path: string, errors: PageOptionsIssue[]): void {
+  if (orientation !== undefined && orientation !== 'portrait' && orientation !== 'landscape') {
+    errors.push({ path, message: `must be 'portrait' or 'landscape', but got ${orientation}` });
+  }
+}
+
+
+function validateLineSpacing(lineSpacing: LineSpacingConfig | undefined, path: string, errors: PageOptionsIssue[]): void {
+  if (lineSpacing === undefined) return;
+
+  switch (lineSpacing?.rule) {
+    case LineSpacingRule.Single:
+    case LineSpacingRule.OneAndHalf:
+    case LineSpacingRule.Double:
+      return;
+    case LineSpacingRule.Multiple:
+      if (!isPositiveNumber(lineSpacing.multiple)) {
+        errors.push({ path: `${path}.multiple`, message: `must be a positive number, but got ${lineSpacing.multiple}` });
+      }
+      return;
+    case LineSpacingRule.Exactly:
+    case LineSpacingRule.AtLeast:
+      if (!lineSpacing.height) {
+        errors.push({ path: `${path}.height`, message: `is required for the ${lineSpacing.rule} rule` });
+      }
+      validateLength(lineSpacing.height, `${path}.height`, errors, { allowZero: false });
+      return;
+    default:
+      errors.push({ path: `${path}.rule`, message: `unknown rule ${lineSpacing?.rule}, expected one of ${Object.values(LineSpacingRule).join(', ')}` });
+  }
+}
+
+
+/**
+ * Whether a line spacing config can be applied, e.g. a paragraph override parsed from HTML
+ */
+export function isValidLineSpacing(lineSpacing: unknown): lineSpacing is LineSpacingConfig {
+  const errors: PageOptionsIssue[] = [];
+  validateLineSpacing(lineSpacing as LineSpacingConfig, 'lineSpacing', errors);
+
+  return lineSpacing !== undefined && !errors.length;
+}
+
+
+function validateLineNumbering(lineNumbering: LineNumberingConfig | undefined, path: string, errors: PageOptionsIssue[]): void {
+  if (!lineNumbering) return;
+
+  (['linesPerPage', 'countBy'] as const).forEach((field) => {
+    const value = lineNumbering[field];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      errors.push({ path: `${path}.${field}`, message: `must be a positive integer, but got ${value}` });
+    }
+  });
+  validateLength(lineNumbering.distance, `${path}.distance`, errors);
+}
+
+
+function validateLineCount(value: number | undefined, path: string, errors: PageOptionsIssue[]): void {
+  if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+    errors.push({ path, message: `must be a positive integer, but got ${value}` });
+  }
+}
+
+
+function validatePageLayout(pageLayout: PageLayoutConfig | undefined, path: string, errors: PageOptionsIssue[]): void {
+  if (!pageLayout) return;
+
+  const { margins, paragraphSpacing, spacing, lineSpacing, lineNumbering, widows, orphans } = pageLayout;
+
+  if (margins) {
+    (['top', 'bottom', 'left', 'right', 'gutter'] as const).forEach((side) => {
+      validateLength(margins[side], `${path}.margins.${side}`, errors);
+    });
+  }
+
+  if (paragraphSpacing) {
+    validateLength(paragraphSpacing.before, `${path}.paragraphSpacing.before`, errors);
+    validateLength(paragraphSpacing.after, `${path}.paragraphSpacing.after`, errors);
+  }
+
+  if (spacing) {
+    const rules = {
+      paragraph: spacing.paragraph,
+      heading: spacing.heading,
+      listItem: spacing.listItem,
+      ...Object.fromEntries(Object.entries(spacing.headingLevels ?? {}).map(([level, rule]) => [`headingLevels.${level}`, rule])),
+    };
+
+    Object.entries(rules).forEach(([name, rule]) => {
+      validateLength(rule?.before, `${path}.spacing.${name}.before`, errors);
+      validateLength(rule?.after, `${path}.spacing.${name}.after`, errors);
+    });
+  }
+
+  validateLineSpacing(lineSpacing, `${path}.lineSpacing`, errors);
+  validateLineNumbering(lineNumbering, `${path}.lineNumbering`, errors);
+  validateLineCount(widows, `${path}.widows`, errors);
+  validateLineCount(orphans, `${path}.orphans`, errors);
+}
+
+
+function validatePageNumber(pageNumber: Partial<PageNumberConfig> | undefined, path: string, errors: PageOptionsIssue[]): void {
+  if (!pageNumber) return;
+
+  const { format, startAt, label } = pageNumber;
+
+  if (format !== undefined && !Object.values(PageNumberFormat).includes(format)) {
+    errors.push({ path: `${path}.format`, message: `unknown format ${format}, expected one of ${Object.values(PageNumberFormat).join(', ')}` });
+  }
+  if (startAt !== undefined && (!Number.isInteger(startAt) || startAt < 0)) {
+    errors.push({ path: `${path}.startAt`, message: `must be a non-negative integer, but got ${startAt}` });
+  }
+  if (label !== undefined && typeof label !== 'string') {
+    errors.push({ path: `${path}.label`, message: `must be a string, but got ${typeof label}` });
+  }
+}
+
+
+function validatePageBorder(pageBorder: PageBorderConfig, path: string, errors: PageOptionsIssue[]): void {
+  const { style, measureFrom } = pageBorder;
+
+  if (style !== undefined && !['solid', 'dashed', 'dotted', 'double'].includes(style)) {
+    errors.push({ path: `${path}.style`, message: `must be 'solid', 'dashed', 'dotted' or 'double', but got ${style}` });
+  }
+  if (measureFrom !== undefined && measureFrom !== 'edge' && measureFrom !== 'text') {
+    errors.push({ path: `${path}.measureFrom`, message: `must be 'edge' or 'text', but got ${measureFrom}` });
+  }
+  validateLength(pageBorder.width, `${path}.width`, errors, { allowZero: false });
+  validateLength(pageBorder.offset, `${path}.offset`, errors);
+}
+
+
+function validateWatermark(watermark: WatermarkConfig, path: string, errors: PageOptionsIssue[], warnings: PageOptionsIssue[]): void {
+  const { opacity, angle, fontSize, imageWidth } = watermark;
+
+  if (opacity !== undefined && (typeof opacity !== 'number' || !(opacity >= 0 && opacity <= 1))) {
+    errors.push({ path: `${path}.opacity`, message: `must be a number from 0 to 1, but got ${opacity}` });
+  }
+  if (angle !== undefined && (typeof angle !== 'number' || !Number.isFinite(angle))) {
+    errors.push({ path: `${path}.angle`, message: `must be a number of degrees, but got ${angle}` });
+  }
+  validateLength(fontSize, `${path}.fontSize`, errors, { allowZero: false });
+  validateLength(imageWidth, `${path}.imageWidth`, errors, { allowZero: false });
+
+  if (watermark.show && !watermark.text && !watermark.image) {
+    warnings.push({ path, message: 'has neither text nor image, so nothing is rendered' });
+  }
+}
+
+
+function validateHeaderFooterContent(
+  content: HeaderFooterContent,
+  path: string,
+  errors: PageOptionsIssue[],
+  schema?: Schema
+): void {
+  if (!Array.isArray(content)) {
+    errors.push({ path, message: `must be an array of blocks, but got ${typeof content}` });
+    return;
+  }
+
+  content.forEach((block, index) => {
+    if (typeof block?.type !== 'string') {
+      errors.push({ path: `${path}.${index}.type`, message: `must be a node type name, but got ${block?.type}` });
+      return;
+    }
+
+    try {
+      schema?.nodeFromJSON(block).check();
+    } catch (error) {
+      errors.push({ path: `${path}.${index}`, message: `does not match the editor schema: ${(error as Error).message}` });
+    }
+  });
+}
+
+
+function validateHeaderFooter(config: HeaderFooterConfig, path: string, errors: PageOptionsIssue[], schema?: Schema): void {
+  if (Array.isArray(config)) {
+    validateHeaderFooterContent(config, path, errors, schema);
+    return;
+  }
+
+  if (!config || typeof config !== 'object') {
+    errors.push({ path, message: `must be an array of blocks or an object of variants, but got ${config}` });
+    return;
+  }
+
+  Object.entries(config).forEach(([variant, content]) => {
+    if (!['default', 'first', 'odd', 'even'].includes(variant)) {
+      errors.push({ path: `${path}.${variant}`, message: `unknown variant, expected one of default, first, odd, even` });
+      return;
+    }
+    if (content !== undefined) validateHeaderFooterContent(content, `${path}.${variant}`, errors, schema);
+  });
+}
+
+
+function validateLetterhead(letterhead: LetterheadConfig, path: string, errors: PageOptionsIssue[], schema?: Schema): void {
+  if (!letterhead.height) {
+    errors.push({ path: `${path}.height`, message: 'is required to reserve space for the letterhead' });
+  }
+  validateLength(letterhead.height, `${path}.height`, errors);
+
+  (letterhead.items ?? []).forEach((item, index) => {
+    const itemPath = `${path}.items.${index}`;
+    const { content, image } = item;
+
+    // An item is drawn as either rich text or an image
+    if ((content === undefined) === (image === undefined)) {
+      errors.push({ path: itemPath, message: 'must have exactly one of content or image' });
+    }
+    if (image !== undefined && typeof image !== 'string') {
+      errors.push({ path: `${itemPath}.image`, message: `must be an image URL, but got ${typeof image}` });
+    }
+    if (content !== undefined) {
+      validateHeaderFooterContent(content, `${itemPath}.content`, errors, schema);
+    }
+
+    (['top', 'left', 'width', 'height'] as const).forEach((field) => {
+      validateLength(item[field], `${itemPath}.${field}`, errors);
+    });
+  });
+}
+
+
+function validateBodySize(options: PageOptions, path: string, errors: PageOptionsIssue[]): void {
+  const bodyHeight = getBodyHeight(options);
+  const bodyWidth = getBodyWidth(options);
+
+  if (!(bodyHeight > 0)) {
+    errors.push({ path, message: `margins, header and footer leave no body height (${bodyHeight}px)` });
+  }
+  if (!(bodyWidth > 0)) {
+    errors.push({ path, message: `margins leave no body width (${bodyWidth}px)` });
+  }
+}
+
+
+/**
+ * Validate page options before they are used for pagination
+ * @param options - Page options, usually merged with the defaults
+ * @param schema - Editor schema, when given header, footer and letterhead content is checked against it
+ * @returns Errors that make pagination impossible and warnings about settings without effect, each with the path of the offending field
+ */
+export function validatePageOptions(options: PageOptions, schema?: Schema): PageOptionsValidationResult {
+  const errors: PageOptionsIssue[] = [];
+  const warnings: PageOptionsIssue[] = [];
+  const { bodyHeight, bodyWidth, paperSize, pageNumber, typography } = options;
+
+  if (paperSize === undefined && (bodyHeight === undefined || bodyHeight === null)) {
+    errors.push({ path: 'bodyHeight', message: 'is required but not provided, provide a numeric value for bodyHeight or a paperSize' });
+  } else if (bodyHeight !== undefined && bodyHeight !== null && !isPositiveNumber(bodyHeight)) {
+    errors.push({ path: 'bodyHeight', message: `must be a positive number, but got ${bodyHeight}` });
+  }
+
+  if (paperSize === undefined && (bodyWidth === undefined || bodyWidth === null)) {
+    errors.push({ path: 'bodyWidth', message: 'is required but not provided, provide a numeric value for bodyWidth or a paperSize' });
+  } else if (bodyWidth !== undefined && bodyWidth !== null && !isPositiveNumber(bodyWidth)) {
+    errors.push({ path: 'bodyWidth', message: `must be a positive number, but got ${bodyWidth}` });
+  }
+
+  validatePaperSize(paperSize, 'paperSize', errors);
+  validateOrientation(options.orientation, 'orientation', errors);
+  validatePageLayout(options.pageLayout, 'pageLayout', errors);
+
+  (['headerHeight', 'footerHeight', 'bodyPadding'] as const).forEach((field) => {
+    const value = options[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      errors.push({ path: field, message: `must be a non-negative number, but got ${value}` });
+    }
+  });
+
+  if (typography?.fontSize) {
+    validateLength(typography.fontSize, 'typography.fontSize', errors, { allowZero: false });
+  }
+
+  if (options.headerFooter) {
+    const { maxHeight, headerDistance, footerDistance } = options.headerFooter;
+    validateLength(maxHeight, 'headerFooter.maxHeight', errors, { allowZero: false });
+    validateLength(headerDistance, 'headerFooter.headerDistance', errors);
+    validateLength(footerDistance, 'headerFooter.footerDistance', errors);
+  }
+
+  (['headerData', 'footerData'] as const).forEach((field) => {
+    const config = options[field];
+    if (config !== undefined) validateHeaderFooter(config, field, errors, schema);
+  });
+
+  validatePageNumber(pageNumber, 'pageNumber', errors);
+
+  const { runningHeaderLevel } = options;
+  if (runningHeaderLevel !== undefined && !(Number.isInteger(runningHeaderLevel) && runningHeaderLevel >= 1 && runningHeaderLevel <= 6)) {
+    errors.push({ path: 'runningHeaderLevel', message: `must be a heading level from 1 to 6, but got ${runningHeaderLevel}` });
+  }
+
+  if (options.letterhead) {
+    validateLetterhead(options.letterhead, 'letterhead', errors, schema);
+  }
+
+  if (options.pageBorder) {
+    validatePageBorder(options.pageBorder, 'pageBorder', errors);
+  }
+
+  if (options.watermark) {
+    validateWatermark(options.watermark, 'watermark', errors, warnings);
+  }
+
+  const timeSlice = options.pagination?.timeSlice;
+  if (timeSlice !== undefined && (typeof timeSlice !== 'number' || !(timeSlice >= 0))) {
+    errors.push({ path: 'pagination.timeSlice', message: `must be a non-negative number of milliseconds, but got ${timeSlice}` });
+  }
+
+  if (pageNumber && !pageNumber.show) {
+    if (pageNumber.position) {
+      warnings.push({ path: 'pageNumber.position', message: 'has no effect while pageNumber.show is false' });
+    }
+    if (pageNumber.showCount) {
+      warnings.push({ path: 'pageNumber.showCount', message: 'has no effect while pageNumber.show is false' });
+    }
+  }
+
+  if (pageNumber?.show && !pageNumber.position) {
+    warnings.push({ path: 'pageNumber.position', message: 'is not set, so page numbers are not rendered' });
+  }
+
+  Object.entries(options.sections ?? {}).forEach(([name, section]) => {
+    const path = `sections.${name}`;
+    validatePaperSize(section.paperSize, `${path}.paperSize`, errors);
+    validateOrientation(section.orientation, `${path}.orientation`, errors);
+    validatePageLayout(section.pageLayout, `${path}.pageLayout`, errors);
+    validatePageNumber(section.pageNumber, `${path}.pageNumber`, errors);
+  });
+
+  // Page sizes can only be checked once every field they are computed from is valid
+  if (!errors.length) {
+    validateBodySize(options, 'pageLayout.margins', errors);
+
+    Object.keys(options.sections ?? {}).forEach((name) => {
+      validateBodySize(resolvePageOptions(options, { section: name }), `sections.${name}.pageLayout.margins`, errors);
+    });
+  }
+
+  return { valid: !errors.length, errors, warnings };
+}
+
+
+/**
+ * Validate the setup attributes a page is given, e.g. by `setPageSetup`, and the options that page resolves to
+ * @param options - Global page options
+ * @param attrs - Attributes of the page node
+ * @param schema - Editor schema, passed on to `validatePageOptions`
+ */
+export function validatePageSetup(options: PageOptions, attrs: Attrs, schema?: Schema): PageOptionsValidationResult {
+  const errors: PageOptionsIssue[] = [];
+  const section = attrs.section as string | null | undefined;
+  const size = attrs.size as PaperSizeConfig | null | undefined;
+
+  if (section && !options.sections?.[section]) {
+    errors.push({ path: 'section', message: `${section} is not one of the configured sections` });
+  }
+  validatePaperSize(size ?? undefined, 'size', errors);
+  validateOrientation(attrs.orientation ?? undefined, 'orientation', errors);
+
+  if (errors.length) return { valid: false, errors, warnings: [] };
+
+  return validatePageOptions(resolvePageOptions(options, attrs), schema);
+}
@@ -1,8 +1,14 @@
 import { 
   injectPageExtensionStyles, 
   removePageExtensionStyles, 
-  areStylesInjected 
+  areStylesInjected,
+  getPageLayoutCss,
+  injectPageLayoutStyles,
+  removePageLayoutStyles,
+  PAGE_LAYOUT_STYLES_ID
 } from '../../src/css-injector';
+import { buildComputedHtml, removeComputedHtml } from '../../src/core';
+import { DEFAULT_PAGE_OPTIONS, type PageOptions } from '../../src/types';
 
 describe('CSS Injector Integration', () => {
   beforeEach(() => {
@@ -158,4 +164,78 @@ describe('CSS Injector Integration', () => {
       console.error = originalConsoleError;
     });
   });
+
+  describe('Layout Styles', () => {
+    const options: PageOptions = {
+      ...DEFAULT_PAGE_OPTIONS,
+      pageLayout: {
+        ...DEFAULT_PAGE_OPTIONS.pageLayout,
+        spacing: {
+          ...DEFAULT_PAGE_OPTIONS.pageLayout?.spacing,
+          headingLevels: { 1: { before: { unit: 'PTS', value: 24 }, after: { unit: 'PTS', value: 6 } } }
+        }
+      }
+    };
+
+    afterEach(() => {
+      removePageLayoutStyles();
+      removeComputedHtml();
+    });
+
+    test('should emit spacing rules per block type', () => {
+      const css = getPageLayoutCss(options);
+
+      expect(css).toContain('.PageContent p {\n  margin-top: 8px;\n  margin-bottom: 8px;\n}');
+      expect(css).toContain('.PageContent h1 {\n  margin-top: 32px;\n  margin-bottom: 8px;\n}');
+      expect(css).toContain('.PageContent h2 {\n  margin-top: 16px;\n  margin-bottom: 16px;\n}');
+      expect(css).toContain('.PageContent li {\n  margin-top: 0px;\n  margin-bottom: 0px;\n}');
+    });
+
+    test('should emit the configured line spacing', () => {
+      expect(getPageLayoutCss(options)).toContain('  line-height: 1.61;\n}');
+      expect(getPageLayoutCss({
+        ...options,
+        pageLayout: { ...options.pageLayout, lineSpacing: { rule: 'EXACTLY', height: { unit: 'PTS', value: 24 } } }
+      })).toContain('  line-height: 32px;\n}');
+    });
+
+    test('should emit the configured typography', () => {
+      const css = getPageLayoutCss({
+        ...options,
+        typography: { fontFamily: 'Arial, sans-serif', fontSize: { unit: 'PTS', value: 15 }, color: '#000' }
+      });
+
+      expect(css).toContain('.PageContent {\n  font-family: Arial, sans-serif;\n  font-size: 20px;\n  color: #000;\n  line-height: 1.61;\n}');
+      expect(css).toContain('.Page .header,\n.Page .footer {\n  font-family: Arial, sans-serif;\n}');
+    });
+
+    test('should replace the page look with a configured background', () => {
+      expect(getPageLayoutCss(options)).not.toContain('.Page {');
+
+      const css = getPageLayoutCss({ ...options, pageBackground: { color: '#fdf6e3', image: '/stamp-paper.png' } });
+
+      expect(css).toContain(
+        '.Page {\n  background-color: #fdf6e3;\n  background-image: url("/stamp-paper.png");\n  background-size: cover;\n' +
+        '  background-position: center;\n  background-repeat: no-repeat;\n  border-radius: 0;\n  box-shadow: none;\n}'
+      );
+      expect(css).toContain('print-color-adjust: exact;');
+    });
+
+    test('should update a single layout style element in place', () => {
+      injectPageLayoutStyles(options);
+      injectPageLayoutStyles(DEFAULT_PAGE_OPTIONS as PageOptions);
+
+      expect(document.querySelectorAll(`#${PAGE_LAYOUT_STYLES_ID}`)).toHaveLength(1);
+      expect(document.getElementById(PAGE_LAYOUT_STYLES_ID)?.textContent).toContain('margin-top: 16px');
+    });
+
+    test('should copy layout styles into the measurement iframe', () => {
+      injectPageLayoutStyles(options);
+      buildComputedHtml({ ...options, bodyHeight: 1056, bodyWidth: 816 });
+
+      const iframe = document.getElementById('computediframe') as HTMLIFrameElement;
+      const styles = Array.from(iframe.contentDocument?.querySelectorAll('style') ?? []);
+      expect(styles.some((style) => style.textContent === getPageLayoutCss(options))).toBe(true);
+    });
+  });
 });
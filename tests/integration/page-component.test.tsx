@@ -1,11 +1,13 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
 import { PageComponent } from '../../src/page-component';
+import { emitter } from '../../src/page-component/events';
 import { createMockPageNode } from '../utils/test-editor';
+import { Schema } from '@tiptap/pm/model';
 
 jest.mock('@tiptap/react', () => ({
-  NodeViewWrapper: ({ children, className, style, id }: any) => (
-    <div className={className} style={style} id={id} data-testid="page-wrapper">
+  NodeViewWrapper: ({ children, className, style, id, onDoubleClick }: any) => (
+    <div className={className} style={style} id={id} onDoubleClick={onDoubleClick} data-testid="page-wrapper">
       {children}
     </div>
   ),
@@ -13,7 +15,9 @@ jest.mock('@tiptap/react', () => ({
     <div className={className} style={style} data-testid="page-content">
       Page Content
     </div>
-  )
+  ),
+  useEditor: () => null,
+  EditorContent: ({ className }: any) => <div className={className} data-testid="header-footer-editor" />
 }));
 
 
@@ -182,4 +186,273 @@ describe('PageComponent Integration', () => {
     const pageWrapper = screen.getByTestId('page-wrapper');
     expect(pageWrapper).not.toBeNull();
   });
+
+  test('should render a landscape page from node attributes', () => {
+    const props = {
+      ...defaultProps,
+      node: {
+        ...mockNode,
+        attrs: { ...mockNode.attrs, orientation: 'landscape' }
+      }
+    };
+
+    render(<PageComponent {...(props as any)} />);
+    
+    const pageWrapper = screen.getByTestId('page-wrapper');
+    expect(pageWrapper.style.width).toBe('1056px');
+    expect(pageWrapper.style.height).toBe('816px');
+  });
+
+  test('should render document footer content on every page', () => {
+    const schema = new Schema({
+      nodes: {
+        doc: { content: 'block+', attrs: { header: { default: null }, footer: { default: null }, metadata: { default: null } } },
+        paragraph: { group: 'block', content: 'inline*', toDOM: () => ['p', 0] },
+        text: { group: 'inline' }
+      }
+    });
+    const footer = [{ type: 'paragraph', content: [{ type: 'text', text: '{TITLE}, page {PAGE} of {NUMPAGES}' }] }];
+    const props = {
+      ...defaultProps,
+      editor: {
+        ...mockEditor,
+        schema,
+        state: { doc: schema.node('doc', { footer, metadata: { TITLE: 'Confidential' } }, [schema.node('paragraph')]) }
+      },
+      extension: {
+        ...mockExtension,
+        options: { ...mockExtension.options, pageNumber: { ...mockExtension.options.pageNumber, show: false } }
+      }
+    };
+
+    const { container } = render(<PageComponent {...(props as any)} />);
+
+    expect(container.querySelector('.footer .footer-content')?.innerHTML).toBe('<p>Confidential, page 1 of 3</p>');
+    expect(container.querySelector('.header')).toBeNull();
+  });
+
+  test('should count the page total in fields and labels from startAt', () => {
+    const schema = new Schema({
+      nodes: {
+        doc: { content: 'block+', attrs: { header: { default: null }, footer: { default: null }, metadata: { default: null } } },
+        paragraph: { group: 'block', content: 'inline*', toDOM: () => ['p', 0] },
+        text: { group: 'inline' }
+      }
+    });
+    const header = [{ type: 'paragraph', content: [{ type: 'text', text: '{PAGE} of {NUMPAGES}' }] }];
+    const props = {
+      ...defaultProps,
+      node: createMockPageNode(3),
+      getPos: jest.fn(() => undefined),
+      editor: { ...mockEditor, schema, state: { doc: schema.node('doc', { header }, [1, 2, 3].map(() => schema.node('paragraph'))) } },
+      extension: {
+        ...mockExtension,
+        options: { ...mockExtension.options, pageNumber: { ...mockExtension.options.pageNumber, startAt: 5, label: 'Page {n} of {total}' } }
+      }
+    };
+
+    const { container } = render(<PageComponent {...(props as any)} />);
+
+    expect(container.querySelector('.header .header-content')?.innerHTML).toBe('<p>7 of 7</p>');
+    expect(container.querySelector('.footer')?.textContent).toContain('Page 7 of 7');
+  });
+
+  test('should follow the running heading of its own editor only when the page shows it', () => {
+    const schema = new Schema({
+      nodes: {
+        doc: { content: 'page+', attrs: { header: { default: null }, footer: { default: null }, metadata: { default: null } } },
+        page: { content: 'block+' },
+        heading: { group: 'block', content: 'inline*', attrs: { level: { default: 1 }, extend: { default: false } }, toDOM: () => ['h1', 0] },
+        paragraph: { group: 'block', content: 'inline*', toDOM: () => ['p', 0] },
+        text: { group: 'inline' }
+      }
+    });
+    const createDoc = (header: unknown, heading: string) =>
+      schema.node('doc', { header }, [schema.node('page', null, [schema.node('heading', null, [schema.text(heading)])])]);
+    const header = [{ type: 'paragraph', content: [{ type: 'text', text: '{HEADING}' }] }];
+    const editor = { ...mockEditor, schema, state: { doc: createDoc(null, 'Chapter 1') } };
+    const documentChangeHandlers = () => (emitter.on as jest.Mock).mock.calls
+      .filter(([name]) => name === 'documentChange')
+      .map(([, handler]) => handler);
+
+    (emitter.on as jest.Mock).mockClear();
+    const { unmount } = render(<PageComponent {...(defaultProps as any)} editor={editor} />);
+    expect(documentChangeHandlers()).toHaveLength(0);
+    unmount();
+
+    editor.state.doc = createDoc(header, 'Chapter 1');
+    const { container } = render(<PageComponent {...(defaultProps as any)} editor={editor} />);
+    const [handleDocumentChange] = documentChangeHandlers();
+    expect(container.querySelector('.header-content')?.innerHTML).toBe('<p>Chapter 1</p>');
+
+    // Documents of other editors are ignored, whatever their size
+    act(() => handleDocumentChange({ editor: {}, doc: schema.node('doc', null, [schema.node('page', null, [schema.node('paragraph')])]) }));
+
+    editor.state.doc = createDoc(header, 'Chapter 2');
+    act(() => handleDocumentChange({ editor, doc: editor.state.doc }));
+    expect(container.querySelector('.header-content')?.innerHTML).toBe('<p>Chapter 2</p>');
+  });
+
+  test('should render the watermark outside the editable content', () => {
+    const props = {
+      ...defaultProps,
+      extension: {
+        ...mockExtension,
+        options: { ...mockExtension.options, watermark: { show: true, text: 'DRAFT', angle: -30 } }
+      }
+    };
+
+    const { container, rerender } = render(<PageComponent {...(props as any)} />);
+    const watermark = container.querySelector('.watermark');
+
+    expect(watermark?.getAttribute('contenteditable')).toBe('false');
+    expect(watermark?.textContent).toBe('DRAFT');
+    expect((watermark?.firstChild as HTMLElement).style.transform).toBe('rotate(-30deg)');
+
+    props.extension.options.watermark.show = false;
+    rerender(<PageComponent {...(props as any)} />);
+
+    expect(container.querySelector('.watermark')).toBeNull();
+  });
+
+  test('should number the lines of the body in the left margin', () => {
+    const props = {
+      ...defaultProps,
+      node: createMockPageNode(2),
+      getPos: jest.fn(() => undefined),
+      extension: {
+        ...mockExtension,
+        options: {
+          ...mockExtension.options,
+          typography: { fontSize: { unit: 'PX', value: 16 } },
+          pageLayout: {
+            ...mockExtension.options.pageLayout,
+            lineSpacing: { rule: 'EXACTLY', height: { unit: 'PX', value: 32 } },
+            lineNumbering: { show: true, linesPerPage: 28, countBy: 5, restartEachPage: false }
+          }
+        }
+      }
+    };
+
+    const { container } = render(<PageComponent {...(props as any)} />);
+    const lines = container.querySelectorAll('.line-numbers .line-number');
+
+    expect(container.querySelector('.line-numbers')?.getAttribute('contenteditable')).toBe('false');
+    expect(lines).toHaveLength(28);
+    expect((lines[0] as HTMLElement).style.height).toBe('32px');
+    expect(lines[0].textContent).toBe('');
+    expect(lines[1].textContent).toBe('30');
+  });
+
+  test('should draw a page border around the text', () => {
+    const props = {
+      ...defaultProps,
+      extension: {
+        ...mockExtension,
+        options: {
+          ...mockExtension.options,
+          pageLayout: { margins: { ...mockExtension.options.pageLayout.margins, left: { unit: 'INCHES', value: 0.5 } } },
+          pageBorder: { style: 'double', width: { unit: 'PX', value: 3 }, color: '#000', measureFrom: 'text', offset: { unit: 'PX', value: 10 } }
+        }
+      }
+    };
+
+    const { container } = render(<PageComponent {...(props as any)} />);
+    const border = container.querySelector('.page-border') as HTMLElement;
+
+    expect(border.style.border).toBe('3px double #000');
+    expect(border.style.left).toBe('35px'); // 48 - 10 - 3
+    expect(screen.getByTestId('page-wrapper').className).not.toContain('shadow');
+  });
+
+  test('should render the letterhead on the first page only', () => {
+    const schema = new Schema({
+      nodes: {
+        doc: { content: 'block+' },
+        paragraph: { group: 'block', content: 'inline*', toDOM: () => ['p', 0] },
+        text: { group: 'inline' }
+      }
+    });
+    const letterhead = {
+      height: { unit: 'PX', value: 200 },
+      items: [
+        { image: '/logo.png', top: { unit: 'PX', value: 40 }, left: { unit: 'PX', value: 48 } },
+        { content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Chambers, New Delhi' }] }], top: { unit: 'PX', value: 40 }, left: { unit: 'PX', value: 400 } }
+      ]
+    };
+    const props = {
+      ...defaultProps,
+      editor: { ...mockEditor, schema },
+      extension: { ...mockExtension, options: { ...mockExtension.options, letterhead } }
+    };
+
+    const { container, rerender } = render(<PageComponent {...(props as any)} />);
+    const items = container.querySelectorAll('.letterhead .letterhead-item');
+
+    expect(container.querySelector('.letterhead')?.getAttribute('contenteditable')).toBe('false');
+    expect(items).toHaveLength(2);
+    expect((items[1] as HTMLElement).style.left).toBe('400px');
+    expect(items[1].innerHTML).toBe('<p>Chambers, New Delhi</p>');
+    expect(screen.getByTestId('page-wrapper').style.paddingTop).toBe('200px');
+
+    rerender(<PageComponent {...(props as any)} node={createMockPageNode(2)} />);
+
+    expect(container.querySelector('.letterhead')).toBeNull();
+  });
+
+  test('should edit an empty header inside the top margin', () => {
+    const props = {
+      ...defaultProps,
+      editor: { ...mockEditor, isEditable: true, state: undefined, extensionManager: { extensions: [] } },
+      extension: {
+        ...mockExtension,
+        options: { ...mockExtension.options, pageLayout: { margins: { ...mockExtension.options.pageLayout.margins, top: { unit: 'PX', value: 96 } } } }
+      }
+    };
+
+    const { container } = render(<PageComponent {...(props as any)} />);
+    const pageWrapper = screen.getByTestId('page-wrapper');
+    const contentHeight = screen.getByTestId('page-content').style.height;
+
+    expect(pageWrapper.style.paddingTop).toBe('96px');
+    expect(container.querySelector('.header')).toBeNull();
+
+    fireEvent.doubleClick(pageWrapper, { clientY: 10 });
+
+    // The 30px editor takes the bottom of the margin and the body stays where it was
+    expect(screen.getByTestId('header-footer-editor')).toBeTruthy();
+    expect(pageWrapper.style.paddingTop).toBe('66px');
+    expect((container.querySelector('.header') as HTMLElement).style.height).toBe('30px');
+    expect(screen.getByTestId('page-content').style.height).toBe(contentHeight);
+  });
+
+  test('should place the header below the letterhead', () => {
+    const schema = new Schema({
+      nodes: {
+        doc: { content: 'page+', attrs: { header: { default: null }, footer: { default: null }, metadata: { default: null } } },
+        page: { content: 'block+', attrs: { id: { default: null } } },
+        paragraph: { group: 'block', content: 'inline*', toDOM: () => ['p', 0] },
+        text: { group: 'inline' }
+      }
+    });
+    const header = [{ type: 'paragraph', content: [{ type: 'text', text: 'In the High Court' }] }];
+    const letterhead = {
+      height: { unit: 'PX', value: 200 },
+      items: [{ image: '/logo.png', top: { unit: 'PX', value: 40 }, left: { unit: 'PX', value: 48 } }]
+    };
+    const props = {
+      ...defaultProps,
+      editor: { ...mockEditor, schema, state: { doc: schema.node('doc', { header }, [schema.node('page', { id: mockNode.attrs.id }, [schema.node('paragraph')])]) } },
+      extension: { ...mockExtension, options: { ...mockExtension.options, letterhead } }
+    };
+
+    const { container } = render(<PageComponent {...(props as any)} />);
+    const headerTop = parseFloat(screen.getByTestId('page-wrapper').style.paddingTop);
+    const headerHeight = parseFloat((container.querySelector('.header') as HTMLElement).style.height);
+
+    // The letterhead takes the top 200px and the 30px header follows it
+    expect(container.querySelector('.header-content')?.innerHTML).toBe('<p>In the High Court</p>');
+    expect(headerTop).toBe(200);
+    expect(headerHeight).toBe(30);
+  });
 });
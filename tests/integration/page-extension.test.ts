@@ -1,5 +1,13 @@
 import { PageExtension } from '../../src/page-extension';
-import { createMockEditor } from '../utils/test-editor';
+import { paginationPluginKey } from '../../src/page-plugin';
+import { PAGE_LAYOUT_STYLES_ID } from '../../src/css-injector';
+import { createCanvasMeasurementBackend } from '../../src/canvas-measurement';
+import { PageComputedContext } from '../../src/computed';
+import { whenPaginated } from '../../src/page-plugin';
+import { emitter } from '../../src/page-component/events';
+import { PaginationProgress } from '../../src/types';
+import { getRunningHeading } from '../../src/field-codes';
+import { createMockEditor, createTestEditor } from '../utils/test-editor';
 
 describe('PageExtension Integration', () => {
   let mockEditor;
@@ -143,4 +151,368 @@ describe('PageExtension Integration', () => {
       expect(extension.options.pageNumber?.position).toBe('bottom');
     });
   });
+
+  describe('Runtime Layout', () => {
+    test('should merge a partial layout into the live options', () => {
+      const editor = createTestEditor({
+        pageNumber: {
+          show: true,
+          showCount: false,
+          showOnFirstPage: true,
+          position: 'bottom',
+          alignment: 'center'
+        }
+      });
+
+      editor.commands.setPageLayout({
+        pageLayout: { margins: { top: { unit: 'CM', value: 2 } } },
+        pageNumber: { alignment: 'right' }
+      });
+
+      const { bodyOptions } = paginationPluginKey.getState(editor.state)!;
+      expect(bodyOptions.pageLayout?.margins?.top).toEqual({ unit: 'CM', value: 2 });
+      expect(bodyOptions.pageLayout?.margins?.bottom).toEqual({ unit: 'INCHES', value: 0.5 });
+      expect(bodyOptions.pageNumber?.alignment).toBe('right');
+      expect(bodyOptions.pageNumber?.show).toBe(true);
+
+      editor.destroy();
+    });
+
+    test('should not touch unrelated root styles', () => {
+      document.documentElement.style.setProperty('--host-color', 'red');
+      const editor = createTestEditor();
+
+      editor.commands.recomputeComputedHtml();
+
+      expect(document.documentElement.style.getPropertyValue('--host-color')).toBe('red');
+      expect(document.documentElement.style.getPropertyValue('--editor-spacing-top')).toBe('16px');
+
+      editor.destroy();
+    });
+
+    test('should reject a layout that leaves no body height', () => {
+      const editor = createTestEditor();
+      const { bodyOptions } = paginationPluginKey.getState(editor.state)!;
+
+      const result = editor.commands.setPageLayout({ pageLayout: { margins: { top: { unit: 'INCHES', value: 11 } } } });
+
+      expect(result).toBe(false);
+      expect(paginationPluginKey.getState(editor.state)!.bodyOptions).toBe(bodyOptions);
+
+      editor.destroy();
+    });
+
+    test('should reject a page setup that leaves no body or names an unknown section', () => {
+      const editor = createTestEditor();
+      const { doc } = editor.state;
+
+      expect(editor.commands.setPageSetup({ size: { width: 90, height: 90, unit: 'PX' } })).toBe(false);
+      expect(editor.commands.insertSectionBreak('annexure')).toBe(false);
+      expect(editor.state.doc).toBe(doc);
+
+      editor.destroy();
+    });
+
+    test('should throw on invalid options at create time', () => {
+      expect(() => createTestEditor({ paperSize: 'B4' })).toThrow('PageExtension: paperSize unknown paper size B4');
+    });
+
+    test('should store header content once in the document', () => {
+      const editor = createTestEditor();
+      const header = [{ type: 'paragraph', content: [{ type: 'text', text: 'In the High Court' }] }];
+
+      editor.commands.setHeaderFooter('header', header);
+
+      expect(editor.getJSON().attrs?.header).toEqual(header);
+      expect(editor.state.doc.attrs.footer).toBeNull();
+
+      editor.destroy();
+    });
+
+    test('should reject header content the schema cannot parse', () => {
+      const editor = createTestEditor();
+
+      expect(editor.commands.setHeaderFooter('header', [{ type: 'table' }])).toBe(false);
+      expect(editor.commands.setHeaderFooter('footer', [{ type: 'table' }], 'first')).toBe(false);
+      expect(editor.state.doc.attrs.header).toBeNull();
+      expect(editor.state.doc.attrs.footer).toBeNull();
+
+      editor.destroy();
+    });
+
+    test('should merge a header variant into the current header', () => {
+      const header = [{ type: 'paragraph', content: [{ type: 'text', text: 'Running head' }] }];
+      const editor = createTestEditor({ headerData: header });
+
+      editor.commands.setHeaderFooter('header', [], 'first');
+
+      expect(editor.state.doc.attrs.header).toEqual({ default: header, first: [] });
+
+      editor.destroy();
+    });
+
+    test('should merge document metadata', () => {
+      const editor = createTestEditor();
+
+      editor.commands.setDocumentMetadata({ TITLE: 'Writ Petition' });
+      editor.commands.setDocumentMetadata({ CASE_NUMBER: '123/2024' });
+
+      expect(editor.getJSON().attrs?.metadata).toEqual({ TITLE: 'Writ Petition', CASE_NUMBER: '123/2024' });
+
+      editor.destroy();
+    });
+
+    test('should resolve the running heading of each page from the document', () => {
+      const editor = createTestEditor({ runningHeaderLevel: 2 });
+      const runningHeadings = () => [0, 1, 2].map((index) => getRunningHeading(editor.state.doc, index, 2));
+
+      editor.commands.setContent(
+        '<page><h1>Chapter 1</h1><p>Intro</p></page>' +
+        '<page><p>Body</p><h3>Detail</h3></page>' +
+        '<page><h2>Section 1.1</h2><p>Body</p></page>'
+      );
+
+      expect(runningHeadings()).toEqual(['Chapter 1', 'Chapter 1', 'Section 1.1']);
+
+      editor.commands.insertContentAt(2, 'The ');
+
+      expect(runningHeadings()).toEqual(['The Chapter 1', 'The Chapter 1', 'Section 1.1']);
+
+      editor.destroy();
+    });
+
+    test('should toggle the watermark at runtime without repaginating', () => {
+      const editor = createTestEditor();
+      const getNodeHeight = jest.spyOn(PageComputedContext.prototype, 'getNodeHeight');
+
+      expect(editor.commands.toggleWatermark()).toBe(false);
+
+      editor.commands.setWatermark({ text: 'DRAFT', opacity: 0.2 });
+      expect(paginationPluginKey.getState(editor.state)!.bodyOptions.watermark).toEqual({ text: 'DRAFT', opacity: 0.2, show: true });
+
+      editor.commands.toggleWatermark();
+      expect(paginationPluginKey.getState(editor.state)!.bodyOptions.watermark).toEqual({ text: 'DRAFT', opacity: 0.2, show: false });
+      expect(getNodeHeight).not.toHaveBeenCalled();
+
+      expect(editor.commands.setWatermark({ opacity: 2 })).toBe(false);
+      expect(paginationPluginKey.getState(editor.state)!.bodyOptions.watermark).toEqual({ text: 'DRAFT', opacity: 0.2, show: false });
+
+      getNodeHeight.mockRestore();
+      editor.destroy();
+    });
+
+    test('should swap typography at runtime', () => {
+      const editor = createTestEditor();
+
+      editor.commands.setTypography({ fontFamily: 'Arial, sans-serif' });
+
+      const { bodyOptions } = paginationPluginKey.getState(editor.state)!;
+      expect(bodyOptions.typography?.fontFamily).toBe('Arial, sans-serif');
+      expect(bodyOptions.typography?.fontSize).toEqual({ unit: 'PTS', value: 12 });
+      expect(document.getElementById(PAGE_LAYOUT_STYLES_ID)?.textContent).toContain('font-family: Arial, sans-serif;');
+
+      editor.destroy();
+    });
+
+    test('should render a paragraph line spacing override', () => {
+      const editor = createTestEditor();
+
+      editor.commands.updateAttributes('paragraph', { lineSpacing: { rule: 'DOUBLE' } });
+
+      const paragraph = editor.view.dom.querySelector('p');
+      expect(paragraph?.style.lineHeight).toBe('2.3');
+      expect(editor.getHTML()).toContain('data-line-spacing');
+
+      editor.destroy();
+    });
+
+    test('should drop a line spacing override it cannot apply', () => {
+      const editor = createTestEditor();
+
+      editor.commands.setContent('<p data-line-spacing="{&quot;rule&quot;:">A</p><p data-line-spacing="{&quot;rule&quot;:&quot;EXACTLY&quot;}">B</p>');
+
+      const paragraphs: unknown[] = [];
+      editor.state.doc.descendants((node) => {
+        if (node.type.name === 'paragraph') paragraphs.push(node.attrs.lineSpacing);
+      });
+      expect(paragraphs).toEqual([null, null]);
+
+      editor.destroy();
+    });
+
+    test('should drop a page size it cannot parse', () => {
+      const editor = createTestEditor();
+
+      editor.commands.setContent('<page data-size="{&quot;width&quot;:"><p>Text</p></page>');
+
+      expect(editor.state.doc.firstChild?.attrs.size).toBeNull();
+
+      editor.destroy();
+    });
+  });
+
+  describe('Pagination', () => {
+    // Three 20px lines fit in the 60px body left by the default margins
+    const createPagedEditor = (options = {}, content = Array.from({ length: 10 }, (_, index) => `<p>P${index + 1}</p>`).join('')) => {
+      const editor = createTestEditor({
+        ...options,
+        bodyHeight: 156,
+        measurementBackend: createCanvasMeasurementBackend({ measureText: (text) => text.length * 10 }),
+        pageLayout: {
+          paragraphSpacing: { before: { unit: 'PX', value: 0 }, after: { unit: 'PX', value: 0 } },
+          spacing: { heading: { before: { unit: 'PX', value: 0 }, after: { unit: 'PX', value: 0 } } },
+          lineSpacing: { rule: 'EXACTLY', height: { unit: 'PX', value: 20 } }
+        }
+      });
+
+      editor.commands.setContent(content);
+      editor.view.dispatch(editor.state.tr.setMeta('splitPage', true));
+      return editor;
+    };
+
+    // The page detector reports an overflow of the page under the cursor after the edit
+    const edit = (editor: ReturnType<typeof createTestEditor>, command: () => void) => {
+      command();
+      editor.view.dispatch(editor.state.tr.setMeta('inserting', true));
+    };
+
+    const pageTexts = (editor: ReturnType<typeof createTestEditor>) =>
+      editor.state.doc.content.content.map((page) => page.content.content.map((node) => node.textContent));
+
+    test('should push overflow through the following pages', () => {
+      const editor = createPagedEditor();
+
+      edit(editor, () => editor.commands.insertContentAt(1, '<p>New</p>'));
+
+      expect(pageTexts(editor)).toEqual([['New', 'P1', 'P2'], ['P3', 'P4', 'P5'], ['P6', 'P7', 'P8'], ['P9', 'P10']]);
+
+      editor.destroy();
+    });
+
+    test('should pull content back from the following pages', () => {
+      const editor = createPagedEditor();
+
+      edit(editor, () => editor.chain().deleteRange({ from: 1, to: 5 }).setTextSelection(2).run());
+
+      expect(pageTexts(editor)).toEqual([['P2', 'P3', 'P4'], ['P5', 'P6', 'P7'], ['P8', 'P9', 'P10']]);
+
+      editor.destroy();
+    });
+
+    test('should keep a section break within the same section', () => {
+      const editor = createPagedEditor();
+
+      editor.chain().setTextSelection(6).insertSectionBreak().run();
+      editor.view.dispatch(editor.state.tr.setMeta('splitPage', true));
+
+      expect(pageTexts(editor)).toEqual([['P1'], ['P2', 'P3', 'P4'], ['P5', 'P6', 'P7'], ['P8', 'P9', 'P10']]);
+      expect(editor.state.doc.child(1).attrs.sectionBreak).toBe(true);
+      expect(editor.state.doc.child(2).attrs.sectionBreak).toBe(false);
+
+      editor.destroy();
+    });
+
+    test('should stop at the first page boundary that did not move', () => {
+      const editor = createPagedEditor();
+      const getNodeHeight = jest.spyOn(PageComputedContext.prototype, 'getNodeHeight');
+
+      edit(editor, () => editor.commands.insertContentAt(4, ' edited'));
+
+      expect(pageTexts(editor)).toEqual([['P1 edited', 'P2', 'P3'], ['P4', 'P5', 'P6'], ['P7', 'P8', 'P9'], ['P10']]);
+      expect(getNodeHeight).toHaveBeenCalledTimes(1);
+
+      getNodeHeight.mockRestore();
+
+      editor.destroy();
+    });
+
+    test('should split pages in slices when scheduled', async () => {
+      const emit = emitter.emit as jest.Mock;
+      emit.mockClear();
+
+      // A zero time slice lays out a single page per slice
+      const editor = createPagedEditor({ pagination: { scheduled: true, timeSlice: 0 } });
+
+      expect(pageTexts(editor)).toEqual([['P1', 'P2', 'P3'], ['P4', 'P5', 'P6', 'P7', 'P8', 'P9', 'P10']]);
+      expect(paginationPluginKey.getState(editor.state)!.pendingPage).toBe(1);
+
+      await whenPaginated(editor);
+
+      expect(pageTexts(editor)).toEqual([['P1', 'P2', 'P3'], ['P4', 'P5', 'P6'], ['P7', 'P8', 'P9'], ['P10']]);
+      const progress = emit.mock.calls
+        .filter(([event]) => event === 'paginationProgress')
+        .map(([, payload]) => payload as PaginationProgress);
+      expect(progress.map(({ done }) => done)).toEqual([false, false, false, true]);
+      expect(progress[progress.length - 1]).toEqual({ pageCount: 4, progress: 1, done: true });
+
+      editor.destroy();
+    });
+
+    test('should leave pages not laid out yet to scheduled pagination', async () => {
+      const editor = createPagedEditor({ pagination: { scheduled: true, timeSlice: 0 } });
+
+      edit(editor, () => editor.commands.insertContentAt(1, '<p>New</p>'));
+
+      // The overflow of the edited page gets a page of its own before the content not laid out yet
+      expect(pageTexts(editor)).toEqual([['New', 'P1', 'P2'], ['P3'], ['P4', 'P5', 'P6', 'P7', 'P8', 'P9', 'P10']]);
+      expect(paginationPluginKey.getState(editor.state)!.pendingPage).toBe(2);
+
+      await whenPaginated(editor);
+
+      expect(pageTexts(editor)).toEqual([['New', 'P1', 'P2'], ['P3'], ['P4', 'P5', 'P6'], ['P7', 'P8', 'P9'], ['P10']]);
+
+      editor.destroy();
+    });
+
+    test('should follow the pending page when pages are joined before it', async () => {
+      const content = Array.from({ length: 20 }, (_, index) => `<p>P${index + 1}</p>`).join('');
+      const editor = createPagedEditor({ pagination: { scheduled: true, timeSlice: 0 } }, content);
+
+      // Two slices lay out the second and third page
+      editor.view.dispatch(editor.state.tr.setMeta('paginationSlice', 0));
+      editor.view.dispatch(editor.state.tr.setMeta('paginationSlice', 0));
+      expect(paginationPluginKey.getState(editor.state)!.pendingPage).toBe(3);
+
+      // Cutting from the first into the third page joins the three pages without repaginating
+      editor.commands.deleteRange({ from: 2, to: 35 });
+
+      expect(pageTexts(editor)[1]).toEqual(Array.from({ length: 11 }, (_, index) => `P${index + 10}`));
+      expect(paginationPluginKey.getState(editor.state)!.pendingPage).toBe(1);
+
+      await whenPaginated(editor);
+
+      expect(pageTexts(editor).every((page) => page.length <= 3)).toBe(true);
+      expect(pageTexts(editor).flat()).toEqual(['8', ...Array.from({ length: 12 }, (_, index) => `P${index + 9}`)]);
+
+      editor.destroy();
+    });
+
+    test('should resolve right away when pagination is synchronous', async () => {
+      const editor = createPagedEditor();
+
+      await expect(whenPaginated(editor)).resolves.toBeUndefined();
+      expect(paginationPluginKey.getState(editor.state)!.pendingPage).toBeNull();
+
+      editor.destroy();
+    });
+
+    test('should move a heading to the next page with the block after it', () => {
+      const editor = createPagedEditor({}, '<p>P1</p><p>P2</p><h2>Title</h2><p>Body</p>');
+
+      expect(pageTexts(editor)).toEqual([['P1', 'P2'], ['Title', 'Body']]);
+
+      editor.destroy();
+    });
+
+    test('should follow the keep with next attribute of any block', () => {
+      const paragraphEditor = createPagedEditor({}, '<p>P1</p><p>P2</p><p data-keep-with-next="true">Lead</p><p>Body</p>');
+      const headingEditor = createPagedEditor({}, '<p>P1</p><p>P2</p><h2 data-keep-with-next="false">Title</h2><p>Body</p>');
+
+      expect(pageTexts(paragraphEditor)).toEqual([['P1', 'P2'], ['Lead', 'Body']]);
+      expect(pageTexts(headingEditor)).toEqual([['P1', 'P2', 'Title'], ['Body']]);
+
+      paragraphEditor.destroy();
+      headingEditor.destroy();
+    });
+  });
 });
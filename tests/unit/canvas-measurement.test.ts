@@ -0,0 +1,122 @@
+import { Schema } from '@tiptap/pm/model';
+import { createCanvasMeasurementBackend } from '../../src/canvas-measurement';
+import { SplitContext, defaultNodesComputed, getLineControlHeight } from '../../src/computed';
+import { domMeasurementBackend, getMeasurementBackend } from '../../src/core';
+import { PageOptions } from '../../src/types';
+
+describe('Canvas Measurement', () => {
+  const schema = new Schema({
+    nodes: {
+      doc: { content: 'block+' },
+      paragraph: { group: 'block', content: 'inline*', attrs: { widows: { default: null }, orphans: { default: null } } },
+      hardBreak: { group: 'inline', inline: true },
+      bulletList: { group: 'block', content: 'listItem+' },
+      listItem: { content: 'paragraph+' },
+      page: { group: 'block', content: 'block+' },
+      text: { group: 'inline' }
+    }
+  });
+
+  const options: PageOptions = {
+    bodyWidth: 816,
+    bodyHeight: 1056,
+    typography: { fontSize: { unit: 'PX', value: 16 } },
+    pageLayout: {
+      margins: {
+        top: { unit: 'PX', value: 58 },
+        bottom: { unit: 'PX', value: 58 },
+        left: { unit: 'PX', value: 58 },
+        right: { unit: 'PX', value: 58 }
+      },
+      paragraphSpacing: { before: { unit: 'PX', value: 5 }, after: { unit: 'PX', value: 5 } },
+      lineSpacing: { rule: 'EXACTLY', height: { unit: 'PX', value: 20 } }
+    }
+  };
+
+  // 10px per character, so every "word " is 40px wide plus a 10px space
+  const backend = createCanvasMeasurementBackend({ measureText: (text) => text.length * 10 });
+  backend.prepare(options);
+
+  // 40 words wrap into lines of 14, 14 and 12 words in the 700px body
+  const paragraph = schema.node('paragraph', null, [schema.text('word '.repeat(40))]);
+
+  test('should lay out text into lines of the configured line height', () => {
+    expect(backend.getHeight(paragraph, null)).toBe(70); // 3 lines * 20 + 5 + 5
+    expect(backend.getDefaultHeight()).toBe(30);
+  });
+
+  test('should start a new line at hard breaks', () => {
+    const node = schema.node('paragraph', null, [schema.text('one'), schema.node('hardBreak'), schema.text('two')]);
+    expect(backend.getHeight(node, null)).toBe(50);
+  });
+
+  test('should drop the spacing of paragraphs in list items', () => {
+    const list = schema.node('bulletList', null, [
+      schema.node('listItem', null, [schema.node('paragraph', null, [schema.text('one')])]),
+      schema.node('listItem', null, [schema.node('paragraph', null, [schema.text('two')])])
+    ]);
+
+    expect(backend.getHeight(list, null)).toBe(40);
+  });
+
+  test('should break a paragraph after the last line that fits', () => {
+    const splitContext = new SplitContext(schema, schema.node('doc', null, [paragraph]), 50, backend.getDefaultHeight(), null, backend);
+
+    // 2 lines fit in 50px - 10px spacing, the third line starts after 28 words
+    expect(backend.getBreakPos(paragraph, null, splitContext)).toBe(141);
+
+    defaultNodesComputed.paragraph(splitContext, paragraph, 0, null, null);
+    expect(splitContext.pageBoundary()).toEqual({ pos: 141, depth: 1 });
+  });
+
+  test('should break a paragraph in a list with the width and spacing of the list', () => {
+    const nested = schema.node('paragraph', null, [schema.text('word '.repeat(40))]);
+    const page = schema.node('page', null, [schema.node('bulletList', null, [schema.node('listItem', null, [nested])])]);
+    const splitContext = new SplitContext(schema, schema.node('doc', null, [page]), 50, backend.getDefaultHeight(), page, backend);
+
+    backend.getElement(page, schema);
+
+    // 13 words fit in the 676px left by the list indent, and paragraphs in list items have no spacing
+    expect(backend.getHeight(nested, null)).toBe(80);
+    expect(backend.getSpacing(nested, null)).toBe(0);
+    expect(backend.getBreakPos(nested, null, splitContext)).toBe(131);
+  });
+
+  test('should keep the widow and orphan minimums when breaking a paragraph', () => {
+    const doc = schema.node('doc', null, [paragraph]);
+    const widowsOnly = { ...options, pageLayout: { ...options.pageLayout, widows: 2 } };
+    const lineControl = { ...options, pageLayout: { ...options.pageLayout, widows: 2, orphans: 2 } };
+
+    // Two of the three lines fit, so only the first line may stay to leave two widows
+    const widowContext = new SplitContext(schema, doc, 50, backend.getDefaultHeight(), null, backend, widowsOnly);
+    defaultNodesComputed.paragraph(widowContext, paragraph, 0, null, null);
+    expect(widowContext.pageBoundary()).toEqual({ pos: 71, depth: 1 });
+
+    // One line would be an orphan, so the whole paragraph moves below other content
+    const orphanContext = new SplitContext(schema, doc, 60, backend.getDefaultHeight(), null, backend, lineControl);
+    orphanContext.addHeight(10);
+    expect(getLineControlHeight(orphanContext, paragraph, null)).toBeNull();
+
+    // The paragraph attributes override the page layout
+    const overridden = schema.node('paragraph', { widows: 1, orphans: 1 }, paragraph.content);
+    expect(getLineControlHeight(orphanContext, overridden, null)).toBe(0);
+
+    // Attribute values that are not positive line counts are ignored
+    const invalid = schema.node('paragraph', { widows: 'two', orphans: 0 }, paragraph.content);
+    expect(getLineControlHeight(orphanContext, invalid, null)).toBeNull();
+  });
+
+  test('should measure header and footer content without spacing', () => {
+    expect(backend.getHeaderFooterHeight('footer', [{ type: 'paragraph', content: [{ type: 'text', text: 'Page 1' }] }], schema, 700)).toBe(20);
+  });
+
+  test('should skip header and footer blocks the schema cannot parse', () => {
+    const content = [{ type: 'table' }, { type: 'paragraph', content: [{ type: 'text', text: 'Page 1' }] }];
+    expect(backend.getHeaderFooterHeight('header', content, schema, 700)).toBe(20);
+  });
+
+  test('should be selected through the page options', () => {
+    expect(getMeasurementBackend({ ...options, measurementBackend: backend })).toBe(backend);
+    expect(getMeasurementBackend(options)).toBe(domMeasurementBackend);
+  });
+});
@@ -1,4 +1,5 @@
-import { getBodyHeight, getBodyWidth } from '../../src/core';
+import { Schema } from '@tiptap/pm/model';
+import { getBodyHeight, getBodyWidth, getHeaderFooterContent, getHeaderFooterHeights, getHeaderFooterHtml, getHeaderFooterLayout, getHeaderFooterVariant, getLineHeight, getLinePitch, getPageDimensions, getPageMargins, resolveDocumentOptions, resolvePageNodeOptions, resolvePageOptions } from '../../src/core';
 import { PageOptions } from '../../src/types';
 
 describe('Core Utilities', () => {
@@ -67,6 +68,23 @@ describe('Core Utilities', () => {
       expect(result).toBe(864); // 1056 - 192
     });
 
+    test('should convert centimeter margins', () => {
+      const options: PageOptions = {
+        ...baseOptions,
+        pageLayout: {
+          margins: {
+            top: { unit: 'CM', value: 2.54 },
+            bottom: { unit: 'CM', value: 1.27 },
+            left: { unit: 'CM', value: 2.5 },
+            right: { unit: 'CM', value: 2.5 }
+          }
+        }
+      };
+
+      expect(getBodyHeight(options)).toBeCloseTo(912, 5); // 1056 - 96 - 48
+      expect(getBodyWidth(options)).toBeCloseTo(627.02, 2); // 816 - 2 * 94.49
+    });
+
     test('should handle missing pageLayout gracefully', () => {
       const options: PageOptions = {
         bodyHeight: 1056,
@@ -139,4 +157,314 @@ describe('Core Utilities', () => {
       expect(result).toBe(816);
     });
   });
+
+  describe('getPageMargins', () => {
+    const options: PageOptions = {
+      bodyHeight: 1056,
+      bodyWidth: 816,
+      pageLayout: {
+        margins: {
+          top: { unit: 'INCHES', value: 1 },
+          bottom: { unit: 'INCHES', value: 1 },
+          left: { unit: 'INCHES', value: 1.5 },
+          right: { unit: 'INCHES', value: 0.5 },
+          gutter: { unit: 'INCHES', value: 0.25 }
+        }
+      }
+    };
+
+    test('should add the gutter to the left margin', () => {
+      expect(getPageMargins(options, 2)).toEqual({ top: 96, bottom: 96, left: 168, right: 48 });
+    });
+
+    test('should swap inside and outside margins on even pages when mirrored', () => {
+      const mirrored: PageOptions = {
+        ...options,
+        pageLayout: { margins: { ...options.pageLayout!.margins!, mirror: true } }
+      };
+
+      expect(getPageMargins(mirrored, 1)).toEqual({ top: 96, bottom: 96, left: 168, right: 48 });
+      expect(getPageMargins(mirrored, 2)).toEqual({ top: 96, bottom: 96, left: 48, right: 168 });
+    });
+
+    test('should include the gutter in the body width', () => {
+      expect(getBodyWidth(options)).toBe(600); // 816 - 168 - 48
+    });
+  });
+
+  describe('getPageDimensions', () => {
+    test('should resolve a named paper size in portrait', () => {
+      const result = getPageDimensions({ paperSize: 'A4' });
+      expect(result).toEqual({ height: 1123, width: 794 });
+    });
+
+    test('should swap edges for landscape orientation', () => {
+      const result = getPageDimensions({ paperSize: 'LETTER', orientation: 'landscape' });
+      expect(result).toEqual({ height: 816, width: 1056 });
+    });
+
+    test('should resolve a custom paper size with unit', () => {
+      const result = getPageDimensions({ paperSize: { width: 8.5, height: 14, unit: 'INCHES' } });
+      expect(result).toEqual({ height: 1344, width: 816 });
+    });
+
+    test('should let raw pixel fields override the paper size', () => {
+      const result = getPageDimensions({ paperSize: 'A4', bodyHeight: 1000 });
+      expect(result).toEqual({ height: 1000, width: 794 });
+    });
+
+    test('should use paper size in body calculations', () => {
+      expect(getBodyHeight({ paperSize: 'A4' })).toBe(1027); // 1123 - 96
+      expect(getBodyWidth({ paperSize: 'A4', orientation: 'landscape' })).toBe(1027); // 1123 - 96
+    });
+  });
+
+  describe('resolvePageOptions', () => {
+    const options: PageOptions = { paperSize: 'A4', orientation: 'portrait' };
+
+    test('should return the global options for a page without setup attributes', () => {
+      const result = resolvePageOptions(options, { pageNumber: 1, orientation: null, size: null });
+      expect(result).toBe(options);
+    });
+
+    test('should apply a page orientation', () => {
+      const result = resolvePageOptions(options, { orientation: 'landscape' });
+      expect(result.bodyHeight).toBe(794);
+      expect(result.bodyWidth).toBe(1123);
+    });
+
+    test('should apply a page size with the global orientation', () => {
+      const result = resolvePageOptions({ ...options, bodyHeight: 1000, bodyWidth: 700 }, { size: 'LEGAL' });
+      expect(result.bodyHeight).toBe(1344);
+      expect(result.bodyWidth).toBe(816);
+    });
+
+    test('should rotate raw pixel dimensions', () => {
+      const result = resolvePageOptions({ bodyHeight: 1056, bodyWidth: 816 }, { orientation: 'landscape' });
+      expect(getBodyHeight(result)).toBe(720); // 816 - 96
+      expect(getBodyWidth(result)).toBe(960); // 1056 - 96
+    });
+
+    test('should apply the layout and numbering of a page section', () => {
+      const sectionOptions: PageOptions = {
+        ...options,
+        pageNumber: {
+          show: false,
+          showCount: false,
+          showOnFirstPage: false,
+          position: null,
+          alignment: null
+        },
+        footerHeight: 40,
+        sections: {
+          cover: {
+            pageLayout: {
+              margins: {
+                top: { unit: 'INCHES', value: 1 },
+                bottom: { unit: 'INCHES', value: 1 },
+                left: { unit: 'INCHES', value: 1 },
+                right: { unit: 'INCHES', value: 1 }
+              }
+            },
+            pageNumber: { show: true, position: 'bottom' }
+          }
+        }
+      };
+
+      const result = resolvePageOptions(sectionOptions, { section: 'cover' });
+      expect(result.pageNumber?.show).toBe(true);
+      expect(result.pageNumber?.showCount).toBe(false);
+      expect(getBodyHeight(result)).toBe(891); // 1123 - 192 - 40
+      expect(getBodyHeight(resolvePageOptions(sectionOptions, { section: null }))).toBe(1027); // 1123 - 96
+    });
+
+    test('should ignore unknown sections', () => {
+      const result = resolvePageOptions(options, { section: 'missing' });
+      expect(result).toBe(options);
+    });
+  });
+
+  describe('getLineHeight', () => {
+    test('should scale single spacing for multiples', () => {
+      expect(getLineHeight({ rule: 'SINGLE' })).toBe('1.15');
+      expect(getLineHeight({ rule: 'ONE_AND_HALF' })).toBe('1.725');
+      expect(getLineHeight({ rule: 'DOUBLE' })).toBe('2.3');
+      expect(getLineHeight({ rule: 'MULTIPLE', multiple: 3 })).toBe('3.45');
+    });
+
+    test('should convert fixed line heights to pixels', () => {
+      expect(getLineHeight({ rule: 'EXACTLY', height: { unit: 'PTS', value: 12 } })).toBe('16px');
+      expect(getLineHeight({ rule: 'AT_LEAST', height: { unit: 'PTS', value: 12 } })).toBe('max(16px, 1.15em)');
+    });
+
+    test('should return null without line spacing', () => {
+      expect(getLineHeight(null)).toBeNull();
+    });
+  });
+
+  describe('getLinePitch', () => {
+    const options: PageOptions = {
+      bodyHeight: 1056,
+      bodyWidth: 816,
+      typography: { fontSize: { unit: 'PTS', value: 12 } }
+    };
+
+    test('should follow the line spacing of the page', () => {
+      expect(getLinePitch({ ...options, pageLayout: { lineSpacing: { rule: 'DOUBLE' } } })).toBeCloseTo(36.8); // 16 * 2.3
+      expect(getLinePitch({ ...options, pageLayout: { lineSpacing: { rule: 'EXACTLY', height: { unit: 'PTS', value: 24 } } } })).toBe(32);
+      expect(getLinePitch({ ...options, pageLayout: { lineSpacing: { rule: 'AT_LEAST', height: { unit: 'PTS', value: 6 } } } })).toBeCloseTo(18.4);
+    });
+
+    test('should use single spacing without line spacing', () => {
+      expect(getLinePitch(options)).toBeCloseTo(18.4);
+    });
+  });
+
+  describe('header and footer content', () => {
+    const options: PageOptions = {
+      bodyHeight: 1056,
+      bodyWidth: 816,
+      headerHeight: 40,
+      footerHeight: 50,
+      headerData: [{ type: 'paragraph' }]
+    };
+
+    test('should reserve the header height when the header has content', () => {
+      expect(getHeaderFooterHeights(options)).toEqual({ header: 40, footer: 0 });
+      expect(getBodyHeight(options)).toBe(920); // 1056 - 96 - 40
+    });
+
+    test('should prefer content stored in the document', () => {
+      const doc = { attrs: { header: [], footer: [{ type: 'paragraph' }] } } as unknown as Parameters<typeof resolveDocumentOptions>[1];
+      const result = resolveDocumentOptions(options, doc);
+
+      expect(getHeaderFooterHeights(result)).toEqual({ header: 0, footer: 50 });
+    });
+
+    test('should keep the options without document content', () => {
+      const doc = { attrs: { header: null, footer: null } } as unknown as Parameters<typeof resolveDocumentOptions>[1];
+      expect(resolveDocumentOptions(options, doc)).toBe(options);
+    });
+
+    test('should leave out blocks the schema cannot parse', () => {
+      const schema = new Schema({
+        nodes: {
+          doc: { content: 'block+' },
+          paragraph: { group: 'block', content: 'text*', toDOM: () => ['p', 0] },
+          text: {}
+        }
+      });
+      const html = getHeaderFooterHtml([
+        { type: 'table' },
+        { type: 'paragraph', content: [{ type: 'text', text: 'Running head' }] }
+      ], schema);
+
+      expect(html).toBe('<p>Running head</p>');
+    });
+  });
+
+  describe('header and footer variants', () => {
+    const first = [{ type: 'paragraph', attrs: { id: 'first' } }];
+    const even = [{ type: 'paragraph', attrs: { id: 'even' } }];
+    const fallback = [{ type: 'paragraph', attrs: { id: 'default' } }];
+
+    test('should pick the first, even and default variants', () => {
+      const config = { first, even, default: fallback };
+
+      expect(getHeaderFooterVariant(config, 1)).toBe('first');
+      expect(getHeaderFooterVariant(config, 2)).toBe('even');
+      expect(getHeaderFooterVariant(config, 3)).toBe('default');
+      expect(getHeaderFooterContent(config, 4)).toBe(even);
+      expect(getHeaderFooterVariant(fallback, 2)).toBe('default');
+    });
+
+    test('should use the variant height of each page', () => {
+      const options: PageOptions = {
+        bodyHeight: 1056,
+        bodyWidth: 816,
+        footerHeight: 50,
+        footerData: { first: [], default: fallback }
+      };
+
+      expect(getBodyHeight(resolvePageOptions(options, { pageNumber: 1 }))).toBe(960); // 1056 - 96
+      expect(getBodyHeight(resolvePageOptions(options, { pageNumber: 2 }))).toBe(910); // 1056 - 96 - 50
+    });
+  });
+
+  describe('header and footer layout', () => {
+    const options: PageOptions = {
+      bodyHeight: 1056,
+      bodyWidth: 816,
+      headerHeight: 40,
+      footerHeight: 40,
+      headerData: [{ type: 'paragraph' }],
+      footerData: [{ type: 'paragraph' }]
+    };
+
+    test('should place the header and footer inside the margins by default', () => {
+      expect(getHeaderFooterLayout(options)).toEqual({ headerTop: 48, bodyTop: 88, bodyBottom: 88, footerBottom: 48 });
+    });
+
+    test('should start the body at the margin when the header fits above it', () => {
+      const result = getHeaderFooterLayout({
+        ...options,
+        headerFooter: {
+          headerDistance: { unit: 'PX', value: 4 },
+          footerDistance: { unit: 'PX', value: 20 }
+        }
+      });
+
+      expect(result).toEqual({ headerTop: 4, bodyTop: 48, bodyBottom: 60, footerBottom: 20 });
+    });
+
+    test('should keep fixed heights without a schema to measure with', () => {
+      const result = resolvePageNodeOptions({ ...options, headerFooter: { autoSize: true } }, null, null);
+      expect(getHeaderFooterHeights(result)).toEqual({ header: 40, footer: 40 });
+    });
+
+    test('should keep the fixed height of a region that shows the page number', () => {
+      const schema = new Schema({
+        nodes: {
+          doc: { content: 'block+' },
+          paragraph: { group: 'block', content: 'text*', toDOM: () => ['p', 0] },
+          text: {}
+        }
+      });
+      const result = resolvePageNodeOptions({
+        ...options,
+        headerFooter: { autoSize: true },
+        pageNumber: { show: true, showCount: false, showOnFirstPage: true, position: 'bottom', alignment: 'center' }
+      }, null, null, schema);
+
+      // The measurement iframe is not built in tests, so content measures 0
+      expect(getHeaderFooterHeights(result)).toEqual({ header: 0, footer: 40 });
+    });
+  });
+
+  describe('letterhead', () => {
+    const options: PageOptions = {
+      bodyHeight: 1056,
+      bodyWidth: 816,
+      letterhead: { height: { unit: 'PX', value: 200 }, items: [] }
+    };
+    const doc = {
+      attrs: {},
+      firstChild: { attrs: { id: 'first', pageNumber: 1 } }
+    } as unknown as Parameters<typeof resolvePageNodeOptions>[1];
+
+    test('should reduce the body height of the first page only', () => {
+      expect(getBodyHeight(resolvePageNodeOptions(options, doc, { id: 'first', pageNumber: 1 }))).toBe(808); // 1056 - 200 - 48
+      expect(getBodyHeight(resolvePageNodeOptions(options, doc, { id: 'second', pageNumber: 1 }))).toBe(960);
+    });
+
+    test('should keep the top margin when it is below the letterhead', () => {
+      const result = resolvePageNodeOptions({ ...options, letterhead: { height: { unit: 'PX', value: 20 }, items: [] } }, null, { pageNumber: 1 });
+      expect(getHeaderFooterLayout(result).bodyTop).toBe(48);
+    });
+
+    test('should place the header below the letterhead', () => {
+      const result = resolvePageNodeOptions({ ...options, headerHeight: 40, headerData: [{ type: 'paragraph' }] }, null, { pageNumber: 1 });
+      expect(getHeaderFooterLayout(result)).toMatchObject({ headerTop: 200, bodyTop: 240 });
+    });
+  });
 });
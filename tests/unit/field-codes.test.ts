@@ -0,0 +1,64 @@
+import { Schema } from '@tiptap/pm/model';
+import { getFieldValues, getSectionPageCount, resolveFieldCodes } from '../../src/field-codes';
+
+describe('Field Codes', () => {
+  const values = getFieldValues({
+    pageNumber: 3,
+    totalPages: 12,
+    sectionPages: 4,
+    metadata: { title: 'Writ Petition', CASE_NUMBER: '123/2024', PAGE: 'ignored' },
+    date: new Date(2024, 0, 31)
+  });
+
+  test('should resolve built-in fields and metadata', () => {
+    expect(values.PAGE).toBe('3');
+    expect(values.NUMPAGES).toBe('12');
+    expect(values.SECTIONPAGES).toBe('4');
+    expect(values.TITLE).toBe('Writ Petition');
+    expect(values.CASE_NUMBER).toBe('123/2024');
+    expect(values.DATE).toBe(new Date(2024, 0, 31).toLocaleDateString());
+  });
+
+  test('should resolve the running heading', () => {
+    expect(values.HEADING).toBe('');
+    expect(getFieldValues({ pageNumber: 1, totalPages: 1, sectionPages: 1, runningHeading: 'Chapter 2' }).HEADING).toBe('Chapter 2');
+  });
+
+  test('should replace field codes in nested text', () => {
+    const content = [{
+      type: 'paragraph',
+      content: [
+        { type: 'text', text: 'Page {PAGE} of {NUMPAGES}' },
+        { type: 'text', marks: [{ type: 'bold' }], text: ' {CASE_NUMBER} {UNKNOWN}' }
+      ]
+    }];
+
+    const result = resolveFieldCodes(content, values);
+
+    expect(result[0].content?.[0].text).toBe('Page 3 of 12');
+    expect(result[0].content?.[1]).toEqual({ type: 'text', marks: [{ type: 'bold' }], text: ' 123/2024 {UNKNOWN}' });
+    expect(content[0].content[0].text).toBe('Page {PAGE} of {NUMPAGES}');
+  });
+
+  test('should keep field codes named after object prototype members', () => {
+    const content = [{ type: 'paragraph', content: [{ type: 'text', text: '{constructor} {toString}' }] }];
+
+    expect(resolveFieldCodes(content, values)[0].content?.[0].text).toBe('{constructor} {toString}');
+  });
+
+  test('should count the pages of a section', () => {
+    const schema = new Schema({
+      nodes: {
+        doc: { content: 'page+' },
+        page: { content: 'text*', attrs: { section: { default: null } } },
+        text: {}
+      }
+    });
+    const page = (section: string | null) => schema.node('page', { section });
+    const doc = schema.node('doc', null, [page('cover'), page(null), page(null), page(null), page('annexure')]);
+
+    expect(getSectionPageCount(doc, 0)).toBe(1);
+    expect(getSectionPageCount(doc, 2)).toBe(3);
+    expect(getSectionPageCount(doc, 4)).toBe(1);
+  });
+});
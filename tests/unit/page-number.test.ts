@@ -0,0 +1,46 @@
+import { formatPageNumber, getDisplayPageCount, getDisplayPageNumber, getPageNumberLabel } from '../../src/page-number';
+
+describe('Page Numbers', () => {
+  describe('formatPageNumber', () => {
+    test('should format roman numerals', () => {
+      expect(formatPageNumber(4, 'LOWER_ROMAN')).toBe('iv');
+      expect(formatPageNumber(1994, 'UPPER_ROMAN')).toBe('MCMXCIV');
+    });
+
+    test('should repeat letters after z', () => {
+      expect(formatPageNumber(1, 'LOWER_ALPHA')).toBe('a');
+      expect(formatPageNumber(26, 'UPPER_ALPHA')).toBe('Z');
+      expect(formatPageNumber(28, 'LOWER_ALPHA')).toBe('bb');
+    });
+
+    test('should use Devanagari digits', () => {
+      expect(formatPageNumber(109, 'DEVANAGARI')).toBe('१०९');
+    });
+
+    test('should fall back to arabic digits below 1', () => {
+      expect(formatPageNumber(0, 'UPPER_ROMAN')).toBe('0');
+      expect(formatPageNumber(12)).toBe('12');
+    });
+  });
+
+  describe('getPageNumberLabel', () => {
+    test('should count from startAt', () => {
+      expect(getDisplayPageNumber({ startAt: 5 }, 2)).toBe('6');
+    });
+
+    test('should keep the default labels', () => {
+      expect(getPageNumberLabel({ showCount: false }, 2, 10)).toBe('2');
+      expect(getPageNumberLabel({ showCount: true }, 2, 10)).toBe('2 of 10');
+    });
+
+    test('should fill a label template', () => {
+      expect(getPageNumberLabel({ label: 'Page {n} of {total}', format: 'LOWER_ROMAN' }, 3, 12)).toBe('Page iii of xii');
+      expect(getPageNumberLabel({ label: 'A-{n}', startAt: 10 }, 1, 3)).toBe('A-10');
+    });
+
+    test('should count the total from startAt like the page numbers', () => {
+      expect(getPageNumberLabel({ label: 'Page {n} of {total}', startAt: 5 }, 10, 10)).toBe('Page 14 of 14');
+      expect(getDisplayPageCount({ startAt: 5, format: 'UPPER_ROMAN' }, 10)).toBe('XIV');
+    });
+  });
+});
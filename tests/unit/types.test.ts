@@ -1,6 +1,9 @@
 import { 
   MarginUnit, 
+  LengthUnit,
   ParagraphSpacingUnit, 
+  PaperSize,
+  PAPER_SIZE_DIMENSIONS,
   DEFAULT_PAGE_OPTIONS,
   type PageOptions,
   type PageLayoutConfig,
@@ -20,6 +23,12 @@ describe('Types and Constants', () => {
     });
   });
 
+  describe('LengthUnit', () => {
+    test('should cover every supported unit', () => {
+      expect(Object.values(LengthUnit)).toEqual(['PX', 'PTS', 'MM', 'CM', 'INCHES']);
+    });
+  });
+
   describe('ParagraphSpacingUnit', () => {
     test('should have correct values', () => {
       expect(ParagraphSpacingUnit.Pts).toBe('PTS');
@@ -30,6 +39,21 @@ describe('Types and Constants', () => {
     });
   });
 
+  describe('PaperSize', () => {
+    test('should have correct values', () => {
+      expect(PaperSize.A4).toBe('A4');
+      expect(PaperSize.Letter).toBe('LETTER');
+      expect(PaperSize.Legal).toBe('LEGAL');
+    });
+
+    test('should define dimensions for every preset', () => {
+      Object.values(PaperSize).forEach((size) => {
+        expect(PAPER_SIZE_DIMENSIONS[size].width).toBeGreaterThan(0);
+        expect(PAPER_SIZE_DIMENSIONS[size].height).toBeGreaterThan(PAPER_SIZE_DIMENSIONS[size].width);
+      });
+    });
+  });
+
   describe('DEFAULT_PAGE_OPTIONS', () => {
     test('should have optional properties', () => {
       expect(DEFAULT_PAGE_OPTIONS).toHaveProperty('pageLayout');
@@ -1,4 +1,5 @@
-import { UnitConversion } from '../../src/core';
+import { UnitConversion, lengthToPx } from '../../src/core';
+import { LengthUnit } from '../../src/types';
 
 describe('UnitConversion', () => {
   let unitConversion: UnitConversion;
@@ -75,6 +76,54 @@ describe('UnitConversion', () => {
     });
   });
 
+  describe('Inch Conversion', () => {
+    test('should convert inches to pixels', () => {
+      expect(unitConversion.inConversionPx(0.5)).toBe(48);
+    });
+
+    test('should convert pixels to inches', () => {
+      expect(unitConversion.pxConversionIn(144)).toBe(1.5);
+    });
+  });
+
+  describe('Centimeter Conversion', () => {
+    test('should convert centimeters to pixels without rounding', () => {
+      expect(unitConversion.cmConversionPx(2.5)).toBeCloseTo(94.488, 3);
+    });
+
+    test('should convert pixels to centimeters', () => {
+      expect(unitConversion.pxConversionCm(96)).toBeCloseTo(2.54, 5);
+    });
+  });
+
+  describe('Generic Conversion', () => {
+    test.each([
+      [LengthUnit.Px, 10, 10],
+      [LengthUnit.Pts, 72, 96],
+      [LengthUnit.Mm, 25.4, 96],
+      [LengthUnit.Cm, 2.54, 96],
+      [LengthUnit.Inches, 1, 96]
+    ])('should convert %s to pixels', (unit, value, expected) => {
+      expect(unitConversion.toPx(value, unit)).toBeCloseTo(expected, 5);
+    });
+
+    test.each([
+      LengthUnit.Px,
+      LengthUnit.Pts,
+      LengthUnit.Mm,
+      LengthUnit.Cm,
+      LengthUnit.Inches
+    ])('should round-trip %s through pixels', (unit) => {
+      expect(unitConversion.fromPx(unitConversion.toPx(3.25, unit), unit)).toBeCloseTo(3.25, 5);
+    });
+
+    test('should convert length configs with lengthToPx', () => {
+      expect(lengthToPx({ unit: LengthUnit.Cm, value: 2.54 })).toBeCloseTo(96, 5);
+      expect(lengthToPx({ unit: LengthUnit.Pts, value: 6 })).toBe(8);
+      expect(lengthToPx(undefined)).toBe(0);
+    });
+  });
+
   describe('Edge Cases', () => {
     test('should handle very small values', () => {
       const result = unitConversion.ptConversionPx(0.1);
@@ -0,0 +1,146 @@
+import { Schema } from '@tiptap/pm/model';
+import { validatePageOptions } from '../../src/validation';
+import { DEFAULT_PAGE_OPTIONS, PageOptions } from '../../src/types';
+
+describe('validatePageOptions', () => {
+  const baseOptions: PageOptions = {
+    ...DEFAULT_PAGE_OPTIONS,
+    bodyHeight: 1056,
+    bodyWidth: 816
+  };
+
+  test('should accept the default options', () => {
+    const result = validatePageOptions(baseOptions);
+
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  test('should require a page size', () => {
+    const result = validatePageOptions({ ...baseOptions, bodyHeight: undefined, bodyWidth: -1 });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => error.path)).toEqual(['bodyHeight', 'bodyWidth']);
+  });
+
+  test('should report invalid lengths with their field path', () => {
+    const result = validatePageOptions({
+      ...baseOptions,
+      pageLayout: {
+        ...baseOptions.pageLayout,
+        margins: {
+          top: { unit: 'FURLONGS' as 'PX', value: 1 },
+          bottom: { unit: 'INCHES', value: 0.5 },
+          left: { unit: 'INCHES', value: 0.5 },
+          right: { unit: 'INCHES', value: 0.5 }
+        },
+        paragraphSpacing: {
+          before: { unit: 'PTS', value: -6 },
+          after: { unit: 'PTS', value: 6 }
+        }
+      }
+    });
+
+    expect(result.errors.map((error) => error.path)).toEqual([
+      'pageLayout.margins.top.unit',
+      'pageLayout.paragraphSpacing.before.value'
+    ]);
+  });
+
+  test('should reject margins larger than the page', () => {
+    const result = validatePageOptions({
+      ...baseOptions,
+      pageLayout: {
+        margins: {
+          top: { unit: 'INCHES', value: 6 },
+          bottom: { unit: 'INCHES', value: 6 },
+          left: { unit: 'INCHES', value: 0.5 },
+          right: { unit: 'INCHES', value: 0.5 }
+        }
+      }
+    });
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].path).toBe('pageLayout.margins');
+  });
+
+  test('should check the page size of each section', () => {
+    const result = validatePageOptions({
+      ...baseOptions,
+      sections: {
+        annexure: { paperSize: 'A5', pageLayout: { lineSpacing: { rule: 'EXACTLY' } } },
+        cover: { orientation: 'landscape', pageLayout: { margins: { ...baseOptions.pageLayout!.margins!, top: { unit: 'INCHES', value: 8 } } } }
+      }
+    });
+
+    expect(result.errors.map((error) => error.path)).toEqual(['sections.annexure.pageLayout.lineSpacing.height']);
+
+    const sizeResult = validatePageOptions({
+      ...baseOptions,
+      sections: {
+        cover: { orientation: 'landscape', pageLayout: { margins: { ...baseOptions.pageLayout!.margins!, top: { unit: 'INCHES', value: 8 } } } }
+      }
+    });
+
+    expect(sizeResult.errors.map((error) => error.path)).toEqual(['sections.cover.pageLayout.margins']);
+  });
+
+  test('should check header and footer content against the schema', () => {
+    const schema = new Schema({
+      nodes: {
+        doc: { content: 'block+' },
+        paragraph: { group: 'block', content: 'text*' },
+        text: {}
+      }
+    });
+    const result = validatePageOptions({
+      ...baseOptions,
+      headerData: [{ type: 'paragraph' }, { type: 'table' }],
+      footerData: { default: [{ type: 'paragraph' }], last: [] } as PageOptions['footerData']
+    }, schema);
+
+    expect(result.errors.map((error) => error.path)).toEqual(['headerData.1', 'footerData.last']);
+  });
+
+  test('should require either content or an image for each letterhead item', () => {
+    const schema = new Schema({
+      nodes: {
+        doc: { content: 'block+' },
+        paragraph: { group: 'block', content: 'text*' },
+        text: {}
+      }
+    });
+    const position = { top: { unit: 'PX' as const, value: 0 }, left: { unit: 'PX' as const, value: 0 } };
+    const result = validatePageOptions({
+      ...baseOptions,
+      letterhead: {
+        height: { unit: 'PX', value: 100 },
+        items: [
+          { ...position, image: '/logo.png' },
+          { ...position },
+          { ...position, image: '/logo.png', content: [{ type: 'paragraph' }] },
+          { ...position, content: [{ type: 'image' }] }
+        ]
+      }
+    }, schema);
+
+    expect(result.errors.map((error) => error.path)).toEqual(['letterhead.items.1', 'letterhead.items.2', 'letterhead.items.3.content.0']);
+  });
+
+  test('should warn about page number settings without effect', () => {
+    const result = validatePageOptions({
+      ...baseOptions,
+      pageNumber: {
+        show: false,
+        showCount: false,
+        showOnFirstPage: false,
+        position: 'bottom',
+        alignment: 'center'
+      }
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      { path: 'pageNumber.position', message: 'has no effect while pageNumber.show is false' }
+    ]);
+  });
+});
@@ -1,8 +1,33 @@
-import { Editor } from '@tiptap/core';
+import { Editor, Node } from '@tiptap/core';
 import { PageExtension } from '../../src/page-extension';
 import { Document as PageDocument } from '../../src/Document';
 
 
+const Text = Node.create({
+  name: 'text',
+  group: 'inline'
+});
+
+
+const Paragraph = Node.create({
+  name: 'paragraph',
+  group: 'block',
+  content: 'inline*',
+  parseHTML: () => [{ tag: 'p' }],
+  renderHTML: ({ HTMLAttributes }) => ['p', HTMLAttributes, 0]
+});
+
+
+const Heading = Node.create({
+  name: 'heading',
+  group: 'block',
+  content: 'inline*',
+  addAttributes: () => ({ level: { default: 1 } }),
+  parseHTML: () => [1, 2, 3].map((level) => ({ tag: `h${level}`, attrs: { level } })),
+  renderHTML: ({ node, HTMLAttributes }) => [`h${node.attrs.level}`, HTMLAttributes, 0]
+});
+
+
 export function createMockEditor() {
   const mockEditor = {
     view: {
@@ -47,6 +72,9 @@ export function createTestEditor(options = {}) {
   const editor = new Editor({
     extensions: [
       PageDocument,
+      Text,
+      Paragraph,
+      Heading,
       PageExtension.configure(defaultOptions)
     ],
     content: '<p>Test content</p>'